@@ -0,0 +1,239 @@
+/**
+ * @fileoverview 書き込み系操作の監査ログ
+ * - 書き込み系ツールの呼び出しごとに、変更したファイルのバイト数・前後の content_hash・結果・クライアント情報を
+ *   JSONL 形式で追記する（追記のみで、既存の記録は書き換えない）
+ * - ツール実行中の変更は commitWrite / commitDelete などから recordChange で収集する
+ * - query_audit_log でパス・ツール・結果・期間を指定して記録を絞り込む
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { createHash } from "crypto";
+import { createReadStream } from "fs";
+import * as fs from "fs/promises";
+import * as path from "path";
+import * as readline from "readline";
+import { ErrorCode as McpErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { Config } from "./config.js";
+import { ToolResult } from "./handlers.js";
+import { ErrorCode, errorCodeOf, errorResult, failureResult, pathDeniedResult } from "./errors.js";
+import { t } from "./messages.js";
+import { matchGlob } from "./glob.js";
+import { parseTimeBound } from "./logs.js";
+import { policyFor, relativeToRoot } from "./policy.js";
+import { computeContentHash, resolvePath } from "./validation.js";
+
+/**
+ * 監査ログの既定のファイル名を返します（状態ディレクトリを共有するワークスペースごとに分ける）
+ */
+export function auditLogFileName(workspaceRoot: string): string {
+  return `audit-${createHash("sha256").update(workspaceRoot).digest("hex").slice(0, 16)}.jsonl`;
+}
+
+/** MCP クライアントの情報（initialize で通知された clientInfo） */
+export interface ClientInfo {
+  name: string;
+  version: string;
+}
+
+/**
+ * ツール実行中に行われたファイル1つ分の変更
+ */
+export interface FileChange {
+  /** 解決済みの絶対パス */
+  path: string;
+  /** 変更前のサイズ（ファイルが存在しなかった場合はnull） */
+  bytes_before: number | null;
+  /** 変更後のサイズ（削除した場合はnull） */
+  bytes_after: number | null;
+  hash_before: string | null;
+  hash_after: string | null;
+}
+
+/**
+ * 監査ログの1レコード（変更したファイルごとに1行。変更がなかった呼び出しは引数のパスごとに1行）
+ */
+export interface AuditRecord extends Omit<FileChange, "path"> {
+  /** 記録日時（ISO 8601） */
+  timestamp: string;
+  tool: string;
+  /** 解決済みの絶対パス（パスを引数に取らないツール・許可ルート外のパスで変更がなかった場合はnull） */
+  path: string | null;
+  status: "ok" | "error";
+  /** 失敗時のエラーコード */
+  error_code: ErrorCode | null;
+  client: ClientInfo | null;
+}
+
+export interface AuditQueryOptions {
+  path?: string;
+  pattern?: string;
+  tool?: string;
+  status?: "ok" | "error";
+  since?: string;
+  until?: string;
+  limit?: number;
+}
+
+// 実行中のツール呼び出しごとの変更一覧（並行する呼び出しを区別するため AsyncLocalStorage で保持）
+const changeStorage = new AsyncLocalStorage<FileChange[]>();
+
+// 記録の順序を保つため、追記は1つずつ順番に行う
+let pendingWrite: Promise<void> = Promise.resolve();
+
+/**
+ * 実行中のツール呼び出しにファイルの変更を記録します（監査対象の呼び出し外では何もしない）
+ *
+ * @param filePath - 変更したファイルの（解決済み）パス
+ * @param before - 変更前の内容（存在しなかった場合はnull）
+ * @param after - 変更後の内容（削除した場合はnull）
+ */
+export function recordChange(filePath: string, before: Buffer | null, after: string | Buffer | null): void {
+  changeStorage.getStore()?.push({
+    path: filePath,
+    bytes_before: before?.length ?? null,
+    bytes_after: after === null ? null : Buffer.byteLength(after),
+    hash_before: before === null ? null : computeContentHash(before),
+    hash_after: after === null ? null : computeContentHash(after),
+  });
+}
+
+async function appendRecords(records: AuditRecord[], auditLog: string): Promise<void> {
+  const lines = records.map(record => JSON.stringify(record) + "\n").join("");
+  pendingWrite = pendingWrite
+    .then(async () => {
+      await fs.mkdir(path.dirname(auditLog), { recursive: true });
+      await fs.appendFile(auditLog, lines, "utf-8");
+    })
+    .catch(error => {
+      console.error(`監査ログの書き込みに失敗しました: ${error instanceof Error ? error.message : error}`);
+    });
+  await pendingWrite;
+}
+
+/**
+ * 書き込み系ツールを実行し、結果を監査ログに記録します
+ *
+ * 記録の失敗はツールの結果に影響させません（標準エラー出力に記録する）。
+ * 実行が例外で終わった場合も error として記録してから例外を投げ直します（引数の検証エラーは INVALID_ARGUMENT）。
+ *
+ * @param tool - ツール名
+ * @param argumentPaths - 変更がなかった場合に記録する引数のパス（path / source / destination。許可ルート外のものは記録しない）
+ * @param client - 呼び出し元のクライアント情報
+ * @param config - 設定オブジェクト（監査ログの保存先を含む）
+ * @param run - ツールの実行関数
+ */
+export async function withAudit(
+  tool: string,
+  argumentPaths: string[],
+  client: ClientInfo | null,
+  config: Config,
+  run: () => Promise<ToolResult>
+): Promise<ToolResult> {
+  if (!config.auditLog) {
+    return run();
+  }
+
+  const changes: FileChange[] = [];
+  let errorCode: ErrorCode | null = null;
+  try {
+    const result = await changeStorage.run(changes, run);
+    errorCode = errorCodeOf(result);
+    return result;
+  } catch (error) {
+    errorCode = error instanceof McpError && error.code === McpErrorCode.InvalidParams ? "INVALID_ARGUMENT" : "OPERATION_FAILED";
+    throw error;
+  } finally {
+    // ツールと同じく解決し、許可ルート外のパス（PATH_DENIED で拒否されたもの）は記録しない
+    const resolved = await Promise.all(argumentPaths.map(argumentPath => resolvePath(argumentPath, config).catch(() => null)));
+    const allowed = resolved.filter((resolvedPath): resolvedPath is string => resolvedPath !== null);
+    const paths: Array<string | null> = allowed.length > 0 ? allowed : [null];
+    const entries = changes.length > 0
+      ? changes
+      : paths.map(entryPath => ({ path: entryPath, bytes_before: null, bytes_after: null, hash_before: null, hash_after: null }));
+    const timestamp = new Date().toISOString();
+    await appendRecords(
+      entries.map(entry => ({
+        timestamp,
+        tool,
+        ...entry,
+        status: errorCode ? "error" : "ok",
+        error_code: errorCode,
+        client,
+      })),
+      config.auditLog
+    );
+  }
+}
+
+export async function handleQueryAuditLog(config: Config, options?: AuditQueryOptions): Promise<ToolResult> {
+  try {
+    console.error(`query_audit_log`);
+
+    if (!config.auditLog) {
+      return { content: [{ type: "text", text: "監査ログは無効です（AUDIT_LOG=off）。" }] };
+    }
+
+    // パスは他のツールと同じく許可ルート内に限定する（削除済みのファイルも指定できる）
+    let targetPath: string | null = null;
+    if (options?.path) {
+      targetPath = await resolvePath(options.path, config);
+      if (!targetPath) {
+        return pathDeniedResult(options.path);
+      }
+    }
+
+    const since = options?.since ? parseTimeBound(options.since) : null;
+    const until = options?.until ? parseTimeBound(options.until) : null;
+    if ((options?.since && since === null) || (options?.until && until === null)) {
+      return errorResult("INVALID_ARGUMENT", t("invalidTimeRange"), { since: options?.since, until: options?.until });
+    }
+    const limit = Math.max(1, options?.limit ?? 100);
+
+    const matches: AuditRecord[] = [];
+    let total = 0;
+    const stream = createReadStream(config.auditLog, { encoding: "utf-8" });
+    const lines = readline.createInterface({ input: stream, crlfDelay: Infinity });
+    try {
+      for await (const line of lines) {
+        if (!line.trim()) continue;
+        let record: AuditRecord;
+        try {
+          record = JSON.parse(line);
+        } catch {
+          continue;
+        }
+
+        // ポリシーで不可視とされたパスの記録は返さない
+        if (record.path && policyFor(record.path, config).access === "deny") continue;
+        if (targetPath !== null && record.path !== targetPath) continue;
+        if (options?.pattern && !(record.path && matchGlob(relativeToRoot(record.path, config), options.pattern))) continue;
+        if (options?.tool && record.tool !== options.tool) continue;
+        if (options?.status && record.status !== options.status) continue;
+        const time = Date.parse(record.timestamp);
+        if (since !== null && time < since) continue;
+        if (until !== null && time > until) continue;
+
+        total++;
+        matches.push(record);
+        if (matches.length > limit) {
+          matches.shift();
+        }
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+    }
+
+    const header = total > matches.length
+      ? `=== 監査ログ: ${total} 件中 最新 ${matches.length} 件 ===`
+      : `=== 監査ログ: ${matches.length} 件 ===`;
+    return {
+      content: [
+        { type: "text", text: [header, ...matches.map(record => JSON.stringify(record))].join('\n') }
+      ]
+    };
+  } catch (error) {
+    return failureResult("read", error, {});
+  }
+}
@@ -1,9 +1,68 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Locale } from "./messages.js";
+import { POLICY_FILE_NAME } from "./policy.js";
+import { auditLogFileName } from "./audit.js";
+
 export interface Config {
   allowedExtensions: string[];
   maxFileSize: number;
+  /** 操作を許可するルートディレクトリ（realpath解決済み）。先頭がワークスペースルート */
+  allowedRoots: string[];
+  /** バージョン履歴の保存先ディレクトリ（nullの場合はメモリ上に保持） */
+  backupDir: string | null;
+  /** ファイルごとに保持するバージョン数の上限（0で履歴を無効化） */
+  maxVersions: number;
+  /** エラーメッセージの言語 */
+  locale: Locale;
+  /** パスごとのポリシー設定ファイル（存在しない場合はルールなし） */
+  policyFile: string;
+  /** 書き込み系操作の監査ログ（JSONL、nullの場合は記録しない） */
+  auditLog: string | null;
+  /** 書き込み前の構文チェック（reject: エラーなら拒否、warn: 警告のみ、off: チェックしない） */
+  syntaxCheck: "reject" | "warn" | "off";
+  /** MCP の通信方式（stdio または HTTP/SSE） */
+  transport: "stdio" | "http";
+  /** HTTP/SSE で待ち受けるホスト */
+  httpHost: string;
+  /** HTTP/SSE で待ち受けるポート */
+  httpPort: number;
+  /** HTTP/SSE で要求する Bearer トークン（nullの場合は認証なし） */
+  authToken: string | null;
+}
+
+/**
+ * コマンドライン引数から `--root <dir>` / `--root=<dir>` を収集します
+ */
+function parseRootArgs(argv: string[]): string[] {
+  const roots: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--root" && i + 1 < argv.length) {
+      roots.push(argv[++i]);
+    } else if (arg.startsWith("--root=")) {
+      roots.push(arg.slice("--root=".length));
+    }
+  }
+  return roots;
+}
+
+/**
+ * サーバーの状態ファイルを置くプラットフォームごとのディレクトリを返します
+ * （Linux: $XDG_STATE_HOME、macOS: ~/Library/Application Support、Windows: %LOCALAPPDATA%）
+ */
+function stateDirectory(): string {
+  const home = os.homedir();
+  const base = process.platform === "win32"
+    ? process.env.LOCALAPPDATA || path.join(home, "AppData", "Local")
+    : process.platform === "darwin"
+      ? path.join(home, "Library", "Application Support")
+      : process.env.XDG_STATE_HOME || path.join(home, ".local", "state");
+  return path.join(base, "mcp-file-editor");
 }
 
-export function loadConfig(): Config {
+export function loadConfig(argv: string[] = process.argv.slice(2)): Config {
   const allowedExtensions = process.env.ALLOWED_EXTENSIONS 
     ? process.env.ALLOWED_EXTENSIONS.split(',').map(ext => {
         const trimmed = ext.trim();
@@ -23,14 +82,76 @@ export function loadConfig(): Config {
     ? parseInt(process.env.MAX_FILE_SIZE, 10)
     : 10485760; // デフォルト10MB
 
+  // CLI引数 > 環境変数 > カレントディレクトリ の順で許可ルートを決定
+  const cliRoots = parseRootArgs(argv);
+  const envRoots = process.env.ALLOWED_ROOTS
+    ? process.env.ALLOWED_ROOTS.split(path.delimiter).map(root => root.trim()).filter(Boolean)
+    : [];
+  const rawRoots = cliRoots.length > 0 ? cliRoots : envRoots.length > 0 ? envRoots : [process.cwd()];
+
+  // シンボリックリンクを解決した実パスで保持する（存在しないルートは起動エラー）
+  const allowedRoots = rawRoots.map(root => fs.realpathSync(path.resolve(root)));
+
+  const backupDir = process.env.BACKUP_DIR ? path.resolve(process.env.BACKUP_DIR) : null;
+
+  const maxVersions = process.env.MAX_VERSIONS
+    ? parseInt(process.env.MAX_VERSIONS, 10)
+    : 10;
+
+  // ja 以外の指定（en-US など）は英語として扱う
+  const locale: Locale = !process.env.MCP_LOCALE || process.env.MCP_LOCALE.toLowerCase().startsWith("ja") ? "ja" : "en";
+
+  // 既定はワークスペースルート直下の .mcp-file-editor.json
+  const policyPath = process.env.POLICY_FILE
+    ? path.resolve(process.env.POLICY_FILE)
+    : path.join(allowedRoots[0], POLICY_FILE_NAME);
+  const policyFile = fs.existsSync(policyPath) ? fs.realpathSync(policyPath) : policyPath;
+
+  // 既定はワークスペースを汚さないよう状態ディレクトリ（許可ルートの外）に置く（"off" で無効化）
+  const auditPath = process.env.AUDIT_LOG === "off"
+    ? null
+    : process.env.AUDIT_LOG
+      ? path.resolve(process.env.AUDIT_LOG)
+      : path.join(stateDirectory(), auditLogFileName(allowedRoots[0]));
+  const auditLog = auditPath && fs.existsSync(auditPath) ? fs.realpathSync(auditPath) : auditPath;
+
+  const syntaxCheckValue = process.env.SYNTAX_CHECK?.toLowerCase();
+  const syntaxCheck = syntaxCheckValue === "warn" || syntaxCheckValue === "off" ? syntaxCheckValue : "reject";
+
+  // 既定は stdio。http の場合は既定でローカルホストの 3000 番で待ち受ける
+  const transport = process.env.MCP_TRANSPORT?.toLowerCase() === "http" ? "http" : "stdio";
+  const httpHost = process.env.MCP_HTTP_HOST || "127.0.0.1";
+  const httpPort = process.env.MCP_HTTP_PORT
+    ? parseInt(process.env.MCP_HTTP_PORT, 10)
+    : 3000;
+  const authToken = process.env.MCP_AUTH_TOKEN || null;
+
   return {
     allowedExtensions,
-    maxFileSize
+    maxFileSize,
+    allowedRoots,
+    backupDir,
+    maxVersions,
+    locale,
+    policyFile,
+    auditLog,
+    syntaxCheck,
+    transport,
+    httpHost,
+    httpPort,
+    authToken
   };
 }
 
 export function logConfig(config: Config): void {
   console.error(`mcp-file-editor設定:
   許可拡張子: ${config.allowedExtensions.join(', ')}
-  最大ファイルサイズ: ${config.maxFileSize} bytes`);
-}
\ No newline at end of file
+  最大ファイルサイズ: ${config.maxFileSize} bytes
+  許可ルート: ${config.allowedRoots.join(', ')}（ワークスペース: ${config.allowedRoots[0]}）
+  バージョン履歴: ${config.maxVersions > 0 ? `最大 ${config.maxVersions} 件（${config.backupDir ?? 'メモリ'}）` : '無効'}
+  メッセージ言語: ${config.locale}
+  ポリシーファイル: ${config.policyFile}
+  監査ログ: ${config.auditLog ?? '無効'}
+  構文チェック: ${config.syntaxCheck}
+  通信方式: ${config.transport === "http" ? `HTTP/SSE（${config.httpHost}:${config.httpPort}、認証: ${config.authToken ? 'Bearer トークン' : 'なし'}）` : 'stdio'}`);
+}
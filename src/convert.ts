@@ -0,0 +1,323 @@
+/**
+ * @fileoverview ファイル形式の変換
+ * - CSV・JSON・YAML を読み込み、JSON・YAML・CSV・Markdown テーブルとして書き出す
+ *   （CSV ↔ JSON のオブジェクト配列、YAML ↔ JSON、JSON → Markdown テーブルなど）
+ * - 変換元・変換先には move_file / copy_file と同じパス・拡張子・サイズ・上書きのチェックを行い、
+ *   変換元の構文エラーと、変換先で表せない値（非有限数・精度が失われる整数・表のセルにできない入れ子の値、
+ *   列名のない CSV のフィールド）は変換前に拒否する
+ * - CSV の型推論は元の表記に戻せる値（"42" "true" など）だけを数値・真偽値にし、"007" や "1.50" は文字列のまま残す
+ */
+
+import * as fs from "fs/promises";
+import YAML from "yaml";
+import { Config } from "./config.js";
+import { ToolResult, encodeForWrite, resolveTransfer } from "./handlers.js";
+import { errorResult, failureResult, sizeLimitResult } from "./errors.js";
+import { t } from "./messages.js";
+import { parseCsv, rowsToCsv } from "./csv.js";
+import { alignTable } from "./format.js";
+import { FORMAT_LABELS, SyntaxFormat, checkSyntax, formatDiagnostics, syntaxErrorResult, syntaxFormatOf, validateSyntax } from "./syntax.js";
+import { DEFAULT_TEXT_FORMAT, decodeText, detectFileFormat } from "./encoding.js";
+import { commitWrite } from "./history.js";
+import { computeContentHash, maxFileSizeFor, validateContentSize } from "./validation.js";
+
+// 変換元・変換先にできる形式
+const SOURCE_FORMATS: SyntaxFormat[] = ["csv", "json", "yaml"];
+const TARGET_FORMATS: SyntaxFormat[] = ["csv", "json", "yaml", "markdown"];
+
+export interface ConvertOptions {
+  /** CSV のセルを数値・真偽値・null に変換する（省略時はtrue） */
+  infer_types?: boolean;
+  /** CSV の先頭行を列名として扱う（書き出す場合はヘッダー行を出力する、省略時はtrue） */
+  header?: boolean;
+  /** 変換先が存在する場合に上書きする（省略時はfalse） */
+  overwrite?: boolean;
+  /** 上書きする変換先の content_hash（指定時、変換先の内容が異なれば競合エラー） */
+  expected_hash?: string;
+}
+
+/**
+ * 変換元の内容を解析した値と、変換で失われる情報の注記
+ */
+type SourceValue =
+  | { ok: true; value: unknown; notes: string[] }
+  | { ok: false; result: ToolResult };
+
+/**
+ * CSV のセルの値を推論します（元の表記に戻せる場合だけ数値・真偽値にする。空のセルは null）
+ *
+ * @example
+ * ```typescript
+ * inferCell("42");    // => 42
+ * inferCell("1.50");  // => "1.50"（1.5 にすると元の表記に戻せない）
+ * inferCell("007");   // => "007"
+ * ```
+ */
+function inferCell(text: string): unknown {
+  if (text === "") return null;
+  if (text === "true") return true;
+  if (text === "false") return false;
+  if (/^-?\d/.test(text) && String(Number(text)) === text) return Number(text);
+  return text;
+}
+
+/**
+ * CSV を行の配列（header: false）または列名をキーとするオブジェクトの配列にします
+ */
+function readCsvRows(source: string, content: string, options: ConvertOptions): SourceValue {
+  const rows = parseCsv(content).records.map(record => record.fields);
+  const cell = (text: string) => ((options.infer_types ?? true) ? inferCell(text) : text);
+  if (!(options.header ?? true)) {
+    return { ok: true, value: rows.map(row => row.map(cell)), notes: [] };
+  }
+  const [header = [], ...body] = rows;
+  const duplicate = header.find((name, index) => header.indexOf(name) !== index);
+  if (duplicate !== undefined) {
+    return { ok: false, result: errorResult("INVALID_ARGUMENT", t("convertDuplicateColumn", { column: duplicate }), { path: source }) };
+  }
+  // 列名のないフィールドはオブジェクトのキーにできず失われるため変換しない
+  const extra = body.findIndex(row => row.length > header.length);
+  if (extra !== -1) {
+    const details = { path: source, row: extra + 1, column: header.length + 1 };
+    return { ok: false, result: errorResult("INVALID_ARGUMENT", t("convertExtraField", details), details) };
+  }
+  const value = body.map(row => Object.fromEntries(header.map((name, index) => [name, cell(row[index] ?? "")])));
+  return { ok: true, value, notes: [] };
+}
+
+/**
+ * 変換元を読み込み、構文エラーがなければ値として返します
+ */
+function readSource(source: string, content: string, format: SyntaxFormat, options: ConvertOptions): SourceValue {
+  const errors = validateSyntax(content, format).filter(diagnostic => diagnostic.severity === "error");
+  if (errors.length > 0) {
+    return {
+      ok: false,
+      result: syntaxErrorResult(source, {
+        message: `${t("convertInvalid", { format: FORMAT_LABELS[format] })}\n${formatDiagnostics(errors)}`,
+        diagnostics: errors,
+      }),
+    };
+  }
+  if (content.trim() === "") {
+    return { ok: true, value: format === "csv" ? [] : null, notes: [] };
+  }
+
+  if (format === "csv") {
+    return readCsvRows(source, content, options);
+  }
+  if (format === "json") {
+    return { ok: true, value: JSON.parse(content), notes: [] };
+  }
+
+  const documents = YAML.parseAllDocuments(content);
+  if (!Array.isArray(documents) || documents.length > 1) {
+    return { ok: false, result: errorResult("INVALID_ARGUMENT", t("convertMultiDocument"), { path: source }) };
+  }
+  const document = documents[0];
+  let commented = Boolean(document.commentBefore || document.comment);
+  YAML.visit(document, (_, node) => {
+    if (YAML.isNode(node) && (node.commentBefore || node.comment)) {
+      commented = true;
+      return YAML.visit.BREAK;
+    }
+  });
+  return { ok: true, value: document.toJS(), notes: commented ? ["YAML のコメントは変換されません"] : [] };
+}
+
+/**
+ * 変換先で表せない値（JSON の非有限数、精度が失われた整数）を探し、その位置を返します
+ */
+function findUnrepresentable(value: unknown, target: SyntaxFormat, location = ""): { location: string; reason: string } | null {
+  if (typeof value === "number") {
+    if (!Number.isFinite(value) && target === "json") {
+      return { location: location || "/", reason: t("convertNotFinite", { value: String(value) }) };
+    }
+    if (Number.isInteger(value) && !Number.isSafeInteger(value)) {
+      return { location: location || "/", reason: t("convertUnsafeInteger") };
+    }
+    return null;
+  }
+  if (Array.isArray(value)) {
+    for (const [index, item] of value.entries()) {
+      const found = findUnrepresentable(item, target, `${location}/${index}`);
+      if (found) return found;
+    }
+    return null;
+  }
+  if (value !== null && typeof value === "object") {
+    for (const [key, item] of Object.entries(value)) {
+      const found = findUnrepresentable(item, target, `${location}/${key.replace(/~/g, "~0").replace(/\//g, "~1")}`);
+      if (found) return found;
+    }
+  }
+  return null;
+}
+
+/**
+ * 値を表の列名と行に変換します（オブジェクトの配列は全キーを出現順に列にする。配列の配列は列名なし）
+ */
+function toTable(value: unknown): { columns: string[] | null; rows: unknown[][] } | null {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+  if (value.every(Array.isArray)) {
+    return { columns: null, rows: value };
+  }
+  const isRecord = (item: unknown): item is Record<string, unknown> =>
+    item !== null && typeof item === "object" && !Array.isArray(item);
+  if (!value.every(isRecord)) {
+    return null;
+  }
+  const columns = [...new Set(value.flatMap(item => Object.keys(item)))];
+  return { columns, rows: value.map(item => columns.map(column => item[column])) };
+}
+
+/**
+ * 表のセルを文字列にします（null は空）
+ */
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  return String(value);
+}
+
+/**
+ * 表のセルのうち、入れ子のオブジェクト・配列（表のセルとして表せない値）の位置を返します
+ */
+function findNestedCell(table: { columns: string[] | null; rows: unknown[][] }): string | null {
+  for (const [rowIndex, row] of table.rows.entries()) {
+    const columnIndex = row.findIndex(cell => cell !== null && typeof cell === "object");
+    if (columnIndex !== -1) {
+      const column = table.columns ? table.columns[columnIndex].replace(/~/g, "~0").replace(/\//g, "~1") : columnIndex;
+      return `/${rowIndex}/${column}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * CSV を型推論で読み戻すと文字列でなくなるセル（"42" "true" "" など）を数えます
+ */
+function countRetypedCells(table: { rows: unknown[][] }): { count: number; first: string } | null {
+  let count = 0;
+  let first = "";
+  for (const row of table.rows) {
+    for (const cell of row) {
+      if (typeof cell === "string" && typeof inferCell(cell) !== "string") {
+        if (count === 0) first = cell;
+        count++;
+      }
+    }
+  }
+  return count > 0 ? { count, first } : null;
+}
+
+function toMarkdownTable(columns: string[], rows: unknown[][]): string {
+  const escape = (text: string) => text.replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+  const line = (cells: string[]) => `| ${cells.map(escape).join(" | ")} |`;
+  const lines = [line(columns), line(columns.map(() => "---")), ...rows.map(row => line(row.map(cellText)))];
+  return alignTable(lines).join("\n") + "\n";
+}
+
+/**
+ * 値を変換先の形式のテキストにします（表にできない値の場合は null）
+ */
+function serialize(value: unknown, target: SyntaxFormat, options: ConvertOptions): string | null {
+  if (target === "json") {
+    return JSON.stringify(value, null, 2) + "\n";
+  }
+  if (target === "yaml") {
+    return new YAML.Document(value).toString({ lineWidth: 0 });
+  }
+
+  const table = toTable(value);
+  if (!table) {
+    return null;
+  }
+  if (target === "csv") {
+    const rows = table.rows.map(row => row.map(cellText));
+    return rowsToCsv(table.columns && (options.header ?? true) ? [table.columns, ...rows] : rows);
+  }
+  // Markdown のテーブルには見出し行が必要なため、配列の配列は先頭の行を見出しにする
+  const [columns, ...rows] = table.columns ? [table.columns, ...table.rows] : table.rows;
+  return columns && columns.length > 0 ? toMarkdownTable(columns.map(cellText), rows) : null;
+}
+
+export async function handleConvertFile(
+  source: string,
+  destination: string,
+  config: Config,
+  options: ConvertOptions = {}
+): Promise<ToolResult> {
+  try {
+    console.error(`convert_file: ${source} -> ${destination}`);
+
+    // 変換元・変換先のパス・拡張子・書き込み可否・変換元のサイズ・上書き・変換先の expected_hash のチェック
+    const transfer = await resolveTransfer(source, destination, options.overwrite ?? false, false, config, options.expected_hash);
+    if (!transfer.ok) {
+      return transfer.result;
+    }
+    const sourceFormat = syntaxFormatOf(transfer.sourcePath);
+    const targetFormat = syntaxFormatOf(transfer.destinationPath);
+    if (!sourceFormat || !targetFormat || sourceFormat === targetFormat
+      || !SOURCE_FORMATS.includes(sourceFormat) || !TARGET_FORMATS.includes(targetFormat)) {
+      return errorResult("INVALID_ARGUMENT", t("convertUnsupported", { source, destination }), { source, destination });
+    }
+
+    const { text } = decodeText(await fs.readFile(transfer.sourcePath));
+    const parsed = readSource(source, text, sourceFormat, options);
+    if (!parsed.ok) {
+      return parsed.result;
+    }
+    const unrepresentable = findUnrepresentable(parsed.value, targetFormat);
+    if (unrepresentable) {
+      return errorResult("INVALID_ARGUMENT", t("convertLossy", unrepresentable), { source, destination, location: unrepresentable.location });
+    }
+    // CSV・Markdown のセルは文字列になるため、入れ子の値は変換せず、読み戻すと型が変わる文字列は注記する
+    const notes = [...parsed.notes];
+    const table = targetFormat === "csv" || targetFormat === "markdown" ? toTable(parsed.value) : null;
+    if (table) {
+      const nested = findNestedCell(table);
+      if (nested !== null) {
+        return errorResult("INVALID_ARGUMENT", t("convertLossy", { location: nested, reason: t("convertNestedCell") }), { source, destination, location: nested });
+      }
+      const retyped = targetFormat === "csv" ? countRetypedCells(table) : null;
+      if (retyped) {
+        notes.push(`文字列のセル ${retyped.count} 個（${JSON.stringify(retyped.first)} など）は、infer_types で CSV から変換し直すと数値・真偽値・null になります`);
+      }
+    }
+    const output = serialize(parsed.value, targetFormat, options);
+    if (output === null) {
+      return errorResult("INVALID_ARGUMENT", t("convertNotTabular", { format: FORMAT_LABELS[targetFormat] }), { source, destination });
+    }
+
+    // 上書きする場合は変換先の文字コード・BOM・改行コードを維持する
+    const exists = await fs.access(transfer.destinationPath).then(() => true).catch(() => false);
+    const encoded = encodeForWrite(output, exists ? await detectFileFormat(transfer.destinationPath) : DEFAULT_TEXT_FORMAT, undefined, { path: transfer.destinationPath });
+    if (!encoded.ok) {
+      return errorResult("INVALID_ARGUMENT", encoded.message, { path: destination });
+    }
+    if (!validateContentSize(encoded.data, transfer.destinationPath, config)) {
+      return sizeLimitResult(destination, "contentTooLarge", maxFileSizeFor(transfer.destinationPath, config), encoded.data.length);
+    }
+    const syntax = await checkSyntax(transfer.destinationPath, output, config);
+    if (!syntax.ok) {
+      return syntaxErrorResult(destination, syntax);
+    }
+
+    await commitWrite(transfer.destinationPath, encoded.data, "convert_file", config);
+    const count = Array.isArray(parsed.value) ? `（${parsed.value.length} 件）` : "";
+    const noteText = notes.map(note => `\n注意: ${note}`).join("");
+    return {
+      content: [
+        {
+          type: "text",
+          text: `成功: ${FORMAT_LABELS[sourceFormat]} ファイル '${source}' を ${FORMAT_LABELS[targetFormat]} ファイル '${destination}' に変換しました${count}。\n` +
+            `content_hash: ${computeContentHash(encoded.data)}${noteText}${syntax.warning}`,
+        },
+      ],
+    };
+  } catch (error) {
+    return failureResult("convert", error, { source, destination });
+  }
+}
@@ -0,0 +1,452 @@
+/**
+ * @fileoverview CSV ファイルのテーブル操作
+ * RFC 4180 準拠の引用符（区切り文字・改行・引用符を含むフィールド）を解釈し、
+ * 元の区切り文字・改行コード・BOMを保持したまま行の参照・セル更新・行追加・列の追加と削除を行います。
+ * 変更していない行は元のテキストのまま書き戻すため、差分は編集した行だけに限られます。
+ */
+
+import { Config } from "./config.js";
+import { ToolResult, WriteOptions, ModifyResult, modifyFile, readValidatedFile } from "./handlers.js";
+import { OperationError, errorResult, failureResult, operationFailureOf } from "./errors.js";
+import { t } from "./messages.js";
+
+/**
+ * CSV の1レコード
+ */
+interface CsvRecord {
+  fields: string[];
+  /** 各フィールドが元のテキストで引用符付きだったか */
+  quoted: boolean[];
+  /** 元のテキスト（改行を含まない）。dirty の場合は再シリアライズする */
+  raw: string;
+  dirty: boolean;
+}
+
+/**
+ * 解析済みの CSV ドキュメント（先頭レコードをヘッダーとして扱う）
+ */
+export interface CsvDocument {
+  delimiter: string;
+  eol: string;
+  bom: boolean;
+  trailingNewline: boolean;
+  records: CsvRecord[];
+}
+
+/**
+ * 行の絞り込み条件
+ */
+export interface CsvFilter {
+  column: string;
+  /** 比較方法（省略時は eq）。gt / lt は両辺が数値なら数値として比較 */
+  op?: "eq" | "ne" | "contains" | "regex" | "gt" | "lt";
+  value: string;
+}
+
+const DELIMITER_CANDIDATES = [",", ";", "\t", "|"];
+
+/**
+ * 先頭行（引用符の外）に最も多く現れる候補を区切り文字とみなします
+ */
+export function detectDelimiter(text: string): string {
+  const counts = new Map<string, number>(DELIMITER_CANDIDATES.map(candidate => [candidate, 0]));
+  let inQuotes = false;
+  for (const char of text) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (char === "\n" || char === "\r")) break;
+    else if (!inQuotes && counts.has(char)) counts.set(char, (counts.get(char) as number) + 1);
+  }
+  let best = ",";
+  for (const [candidate, count] of counts) {
+    if (count > (counts.get(best) as number)) best = candidate;
+  }
+  return best;
+}
+
+/**
+ * CSV テキストを解析します
+ *
+ * @param content - CSV の内容
+ * @returns 解析済みドキュメント
+ * @throws 引用符が閉じられていない場合
+ */
+export function parseCsv(content: string): CsvDocument {
+  const bom = content.startsWith("\uFEFF");
+  const text = bom ? content.slice(1) : content;
+  const delimiter = detectDelimiter(text);
+  const records: CsvRecord[] = [];
+  let eol: string | null = null;
+
+  let fields: string[] = [];
+  let quoted: boolean[] = [];
+  let field = "";
+  let fieldQuoted = false;
+  let recordStart = 0;
+  let i = 0;
+  let trailingNewline = false;
+
+  const endField = () => {
+    fields.push(field);
+    quoted.push(fieldQuoted);
+    field = "";
+    fieldQuoted = false;
+  };
+  const endRecord = (end: number) => {
+    endField();
+    records.push({ fields, quoted, raw: text.slice(recordStart, end), dirty: false });
+    fields = [];
+    quoted = [];
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+    if (char === '"' && field === "" && !fieldQuoted) {
+      // 引用符付きフィールド: "" は引用符1文字
+      fieldQuoted = true;
+      i++;
+      while (true) {
+        if (i >= text.length) {
+          throw new OperationError("OPERATION_FAILED", t("csvUnclosedQuote", { record: records.length + 1 }), { record: records.length + 1 });
+        }
+        if (text[i] === '"') {
+          if (text[i + 1] === '"') {
+            field += '"';
+            i += 2;
+            continue;
+          }
+          i++;
+          break;
+        }
+        field += text[i++];
+      }
+    } else if (char === delimiter) {
+      endField();
+      i++;
+    } else if (char === "\r" || char === "\n") {
+      const length = char === "\r" && text[i + 1] === "\n" ? 2 : 1;
+      eol ??= text.slice(i, i + length);
+      endRecord(i);
+      i += length;
+      recordStart = i;
+      if (i >= text.length) trailingNewline = true;
+    } else {
+      field += char;
+      i++;
+    }
+  }
+  if (recordStart < text.length || fields.length > 0 || field !== "") {
+    endRecord(text.length);
+  }
+
+  return { delimiter, eol: eol ?? "\n", bom, trailingNewline, records };
+}
+
+/**
+ * フィールドを CSV 表記に変換します（必要な場合や元が引用符付きの場合は引用符で囲む）
+ */
+function serializeField(value: string, delimiter: string, forceQuote: boolean): string {
+  const needsQuote = forceQuote || value.includes(delimiter) || /["\r\n]/.test(value) || /^\s|\s$/.test(value);
+  return needsQuote ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * ドキュメントを CSV テキストに戻します（変更のないレコードは元のテキストのまま）
+ */
+export function serializeCsv(doc: CsvDocument): string {
+  const lines = doc.records.map(record =>
+    record.dirty
+      ? record.fields.map((value, index) => serializeField(value, doc.delimiter, record.quoted[index] ?? false)).join(doc.delimiter)
+      : record.raw
+  );
+  return (doc.bom ? "\uFEFF" : "") + lines.join(doc.eol) + (doc.trailingNewline && lines.length > 0 ? doc.eol : "");
+}
+
+/**
+ * 行の配列を CSV テキストに変換します（必要なフィールドだけ引用符で囲み、末尾は改行で終える）
+ */
+export function rowsToCsv(rows: string[][], delimiter = ","): string {
+  const doc: CsvDocument = { delimiter, eol: "\n", bom: false, trailingNewline: true, records: rows.map(createRecord) };
+  return serializeCsv(doc);
+}
+
+/**
+ * 値を新しいレコードとして作成します
+ */
+function createRecord(fields: string[]): CsvRecord {
+  return { fields, quoted: fields.map(() => false), raw: "", dirty: true };
+}
+
+/**
+ * ヘッダー名から列番号を求めます
+ */
+function columnIndex(doc: CsvDocument, column: string): number {
+  const header = doc.records[0]?.fields ?? [];
+  const index = header.indexOf(column);
+  if (index === -1) {
+    throw new OperationError("NOT_FOUND", t("csvColumnNotFound", { column, columns: header }), { column, columns: header });
+  }
+  return index;
+}
+
+/**
+ * データ行をヘッダー名をキーとするオブジェクトに変換します（行番号は _row）
+ */
+function toRowObject(doc: CsvDocument, rowNumber: number, columns?: string[]): Record<string, string | number> {
+  const header = doc.records[0].fields;
+  const record = doc.records[rowNumber];
+  const row: Record<string, string | number> = { _row: rowNumber };
+  header.forEach((name, index) => {
+    if (!columns || columns.includes(name)) {
+      row[name] = record.fields[index] ?? "";
+    }
+  });
+  return row;
+}
+
+/**
+ * 行が絞り込み条件をすべて満たすかを判定します
+ */
+function matchesFilters(doc: CsvDocument, rowNumber: number, filters: Array<{ index: number; filter: CsvFilter; regex?: RegExp }>): boolean {
+  const record = doc.records[rowNumber];
+  return filters.every(({ index, filter, regex }) => {
+    const cell = record.fields[index] ?? "";
+    const numeric = cell.trim() !== "" && filter.value.trim() !== "" && !isNaN(Number(cell)) && !isNaN(Number(filter.value));
+    switch (filter.op ?? "eq") {
+      case "eq": return cell === filter.value;
+      case "ne": return cell !== filter.value;
+      case "contains": return cell.includes(filter.value);
+      case "regex": return (regex as RegExp).test(cell);
+      case "gt": return numeric ? Number(cell) > Number(filter.value) : cell > filter.value;
+      case "lt": return numeric ? Number(cell) < Number(filter.value) : cell < filter.value;
+      default: throw new OperationError("INVALID_ARGUMENT", t("csvUnknownOperator", { op: String(filter.op) }), { op: filter.op });
+    }
+  });
+}
+
+/**
+ * 対象行を行番号またはキー列の値で特定します
+ */
+function findRow(doc: CsvDocument, target: { row?: number; key_column?: string; key_value?: string }): number {
+  const rowCount = doc.records.length - 1;
+  if (target.row !== undefined) {
+    if (!Number.isInteger(target.row) || target.row < 1 || target.row > rowCount) {
+      throw new OperationError("NOT_FOUND", t("csvRowOutOfRange", { row: target.row, total: rowCount }), { row: target.row, row_count: rowCount });
+    }
+    return target.row;
+  }
+  if (target.key_column === undefined || target.key_value === undefined) {
+    throw new OperationError("INVALID_ARGUMENT", t("csvRowTargetRequired"));
+  }
+  const index = columnIndex(doc, target.key_column);
+  const matches: number[] = [];
+  for (let row = 1; row <= rowCount; row++) {
+    if ((doc.records[row].fields[index] ?? "") === target.key_value) matches.push(row);
+  }
+  if (matches.length === 0) {
+    throw new OperationError(
+      "NOT_FOUND",
+      t("csvKeyNotFound", { column: target.key_column, value: target.key_value }),
+      { key_column: target.key_column, key_value: target.key_value }
+    );
+  }
+  if (matches.length > 1) {
+    throw new OperationError(
+      "INVALID_ARGUMENT",
+      t("csvKeyAmbiguous", { column: target.key_column, value: target.key_value, rows: matches }),
+      { key_column: target.key_column, key_value: target.key_value, rows: matches }
+    );
+  }
+  return matches[0];
+}
+
+/**
+ * 絞り込み条件の正規表現を作成します
+ */
+function toRegExp(pattern: string): RegExp {
+  try {
+    return new RegExp(pattern);
+  } catch (error) {
+    throw new OperationError("INVALID_ARGUMENT", t("invalidRegex", { reason: error instanceof Error ? error.message : t("unknownError") }), { regex: pattern });
+  }
+}
+
+/**
+ * CSV を解析して変換関数を適用し、変更後の内容を返す共通処理
+ */
+function transformCsv(content: string, transform: (doc: CsvDocument) => string): ModifyResult {
+  try {
+    const doc = parseCsv(content);
+    const message = transform(doc);
+    return { ok: true, content: serializeCsv(doc), message };
+  } catch (error) {
+    return operationFailureOf(error);
+  }
+}
+
+export interface ReadCsvOptions {
+  /** 読み飛ばすデータ行数 */
+  offset?: number;
+  /** 返す最大行数 */
+  limit?: number;
+  /** 返す列（省略時はすべて） */
+  columns?: string[];
+  filters?: CsvFilter[];
+}
+
+export async function handleReadCsv(filePath: string, config: Config, options?: ReadCsvOptions): Promise<ToolResult> {
+  try {
+    console.error(`read_csv: ${filePath}`);
+
+    const file = await readValidatedFile(filePath, config);
+    if (!file.ok) {
+      return file.result;
+    }
+
+    const doc = parseCsv(file.content);
+    if (doc.records.length === 0) {
+      return errorResult("OPERATION_FAILED", t("csvNoHeader", { path: filePath }), { path: filePath });
+    }
+    options?.columns?.forEach(column => columnIndex(doc, column));
+    const filters = (options?.filters ?? []).map(filter => ({
+      index: columnIndex(doc, filter.column),
+      filter,
+      regex: filter.op === "regex" ? toRegExp(filter.value) : undefined,
+    }));
+
+    const offset = Math.max(0, options?.offset ?? 0);
+    const limit = Math.max(0, options?.limit ?? 50);
+    const matched: number[] = [];
+    for (let row = 1; row < doc.records.length; row++) {
+      if (matchesFilters(doc, row, filters)) matched.push(row);
+    }
+    const selected = matched.slice(offset, offset + limit);
+
+    const delimiterLabel = doc.delimiter === "\t" ? "タブ" : `"${doc.delimiter}"`;
+    const header = `=== ファイル: ${filePath} / ${selected.length} 行（該当 ${matched.length} 行中 ${offset + 1} 件目から） / 総 ${doc.records.length - 1} 行 / 区切り: ${delimiterLabel} ===\n` +
+      `=== 列: ${doc.records[0].fields.join(', ')} ===\n\n`;
+    return {
+      content: [
+        { type: "text", text: header + JSON.stringify(selected.map(row => toRowObject(doc, row, options?.columns)), null, 2) },
+        { type: "text", text: `content_hash: ${file.hash}` }
+      ]
+    };
+  } catch (error) {
+    return failureResult("readCsv", error, { path: filePath });
+  }
+}
+
+export async function handleUpdateCsvCell(
+  filePath: string,
+  target: { row?: number; key_column?: string; key_value?: string },
+  column: string,
+  value: string,
+  config: Config,
+  options?: WriteOptions
+): Promise<ToolResult> {
+  console.error(`update_csv_cell: ${filePath}`);
+  return modifyFile("update_csv_cell", filePath, config, options, content => transformCsv(content, doc => {
+    const row = findRow(doc, target);
+    const index = columnIndex(doc, column);
+    const record = doc.records[row];
+    const previous = record.fields[index] ?? "";
+    while (record.fields.length <= index) {
+      record.fields.push("");
+      record.quoted.push(false);
+    }
+    record.fields[index] = String(value);
+    record.dirty = true;
+    return `成功: ファイル '${filePath}' の行 ${row} の列 '${column}' を更新しました（旧値: '${previous}' → 新値: '${value}'）。`;
+  }));
+}
+
+export async function handleAppendCsvRows(
+  filePath: string,
+  rows: Array<Record<string, unknown> | unknown[]>,
+  config: Config,
+  options?: WriteOptions
+): Promise<ToolResult> {
+  console.error(`append_csv_rows: ${filePath}`);
+  return modifyFile("append_csv_rows", filePath, config, options, content => transformCsv(content, doc => {
+    if (!Array.isArray(rows) || rows.length === 0) {
+      throw new OperationError("INVALID_ARGUMENT", t("csvRowsRequired"));
+    }
+    if (doc.records.length === 0) {
+      throw new OperationError("OPERATION_FAILED", t("csvNoHeader", { path: filePath }));
+    }
+    const header = doc.records[0].fields;
+    const firstRow = doc.records.length;
+    for (const [index, row] of rows.entries()) {
+      if (Array.isArray(row)) {
+        if (row.length !== header.length) {
+          throw new OperationError(
+            "INVALID_ARGUMENT",
+            t("csvRowLengthMismatch", { length: row.length, expected: header.length }),
+            { index: index + 1, length: row.length, expected: header.length }
+          );
+        }
+        doc.records.push(createRecord(row.map(value => value === null || value === undefined ? "" : String(value))));
+      } else {
+        const unknown = Object.keys(row).filter(key => !header.includes(key));
+        if (unknown.length > 0) {
+          throw new OperationError("NOT_FOUND", t("csvUnknownColumns", { columns: unknown }), { index: index + 1, columns: unknown });
+        }
+        doc.records.push(createRecord(header.map(name => row[name] === null || row[name] === undefined ? "" : String(row[name]))));
+      }
+    }
+    return `成功: ファイル '${filePath}' に ${rows.length} 行を追加しました（行 ${firstRow}-${doc.records.length - 1}）。`;
+  }));
+}
+
+export async function handleAddCsvColumn(
+  filePath: string,
+  column: string,
+  defaultValue: string,
+  position: number | undefined,
+  config: Config,
+  options?: WriteOptions
+): Promise<ToolResult> {
+  console.error(`add_csv_column: ${filePath}`);
+  return modifyFile("add_csv_column", filePath, config, options, content => transformCsv(content, doc => {
+    if (typeof column !== "string" || column === "") {
+      throw new OperationError("INVALID_ARGUMENT", t("csvColumnRequired"));
+    }
+    if (doc.records.length === 0) {
+      doc.records.push(createRecord([]));
+    }
+    const header = doc.records[0].fields;
+    if (header.includes(column)) {
+      throw new OperationError("ALREADY_EXISTS", t("csvColumnExists", { column }), { column });
+    }
+    const index = position === undefined ? header.length : Math.min(Math.max(0, position), header.length);
+    doc.records.forEach((record, row) => {
+      while (record.fields.length < index) {
+        record.fields.push("");
+        record.quoted.push(false);
+      }
+      record.fields.splice(index, 0, row === 0 ? column : String(defaultValue ?? ""));
+      record.quoted.splice(index, 0, false);
+      record.dirty = true;
+    });
+    return `成功: ファイル '${filePath}' に列 '${column}' を追加しました（${index + 1} 列目）。`;
+  }));
+}
+
+export async function handleDropCsvColumn(
+  filePath: string,
+  column: string,
+  config: Config,
+  options?: WriteOptions
+): Promise<ToolResult> {
+  console.error(`drop_csv_column: ${filePath}`);
+  return modifyFile("drop_csv_column", filePath, config, options, content => transformCsv(content, doc => {
+    const index = columnIndex(doc, column);
+    for (const record of doc.records) {
+      if (index < record.fields.length) {
+        record.fields.splice(index, 1);
+        record.quoted.splice(index, 1);
+        record.dirty = true;
+      }
+    }
+    return `成功: ファイル '${filePath}' から列 '${column}' を削除しました。`;
+  }));
+}
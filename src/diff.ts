@@ -0,0 +1,292 @@
+/**
+ * @fileoverview unified diff の作成
+ * - 行単位の差分を Myers のアルゴリズムで求め、diff -u と同じ形式で出力する（apply_patch でそのまま適用できる）
+ * - 書き込み系ツールのドライラン結果と diff_files で使う
+ */
+
+import { Config } from "./config.js";
+import { ToolResult, readValidatedFile } from "./handlers.js";
+import { errorResult, failureResult, sizeLimitResult } from "./errors.js";
+import { t } from "./messages.js";
+import { decodeText, formatTextFormat, TextFormat } from "./encoding.js";
+import { PendingChange, collectDryRun } from "./history.js";
+import { relativeToRoot } from "./policy.js";
+import { validateContentSize, maxFileSizeFor } from "./validation.js";
+
+/** 前後に表示するコンテキスト行数の既定値 */
+const DEFAULT_CONTEXT = 3;
+
+// 編集距離がこれを超える場合は最短の差分を求めず、共通の先頭・末尾を除いた範囲をまとめて置き換える
+const MAX_EDIT_DISTANCE = 4000;
+
+export type Edit = { op: " " | "-" | "+"; line: string };
+
+/**
+ * 改行を含めたまま行に分割します（最終行に改行がない場合はそのまま残る）
+ */
+function splitLines(text: string): string[] {
+  const lines = text.split(/(?<=\n)/);
+  return lines.length === 1 && lines[0] === "" ? [] : lines;
+}
+
+/**
+ * Myers のアルゴリズムで a から b への最短の編集列を求めます（上限を超えた場合はnull）
+ *
+ * 各ステップで必要な範囲だけを保存するため、使用メモリは編集距離の2乗に比例します。
+ */
+function shortestEdits(a: string[], b: string[]): Edit[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  let found = -1;
+  for (let d = 0; d <= Math.min(max, MAX_EDIT_DISTANCE) && found < 0; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = d;
+        break;
+      }
+    }
+  }
+  if (found < 0) {
+    return null;
+  }
+
+  // 終点から各ステップの保存値をたどって編集列を復元する
+  const edits: Edit[] = [];
+  let x = n;
+  let y = m;
+  for (let d = found; d >= 0; d--) {
+    const saved = trace[d];
+    const at = (k: number) => saved[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      edits.push({ op: " ", line: a[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        edits.push({ op: "+", line: b[--y] });
+      } else {
+        edits.push({ op: "-", line: a[--x] });
+      }
+    }
+  }
+  return edits.reverse();
+}
+
+/**
+ * 行単位の編集列を求めます（共通の先頭・末尾は先に取り除く）
+ */
+export function diffLines(a: string[], b: string[]): Edit[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+  const middle = shortestEdits(middleA, middleB) ?? [
+    ...middleA.map(line => ({ op: "-" as const, line })),
+    ...middleB.map(line => ({ op: "+" as const, line })),
+  ];
+  return [
+    ...a.slice(0, start).map(line => ({ op: " " as const, line })),
+    ...middle,
+    ...a.slice(endA).map(line => ({ op: " " as const, line })),
+  ];
+}
+
+function formatRange(start: number, count: number): string {
+  // 空の範囲は直前の行番号で表す（diff -u と同じ）
+  const first = count === 0 ? start - 1 : start;
+  return count === 1 ? `${first}` : `${first},${count}`;
+}
+
+/**
+ * 2つのテキストの unified diff を作成します（差分がない場合は空文字列）
+ *
+ * @param oldText - 変更前の内容（存在しない場合はnull）
+ * @param newText - 変更後の内容（削除の場合はnull）
+ * @param oldLabel - 変更前のファイル名（"--- " 行に表示）
+ * @param newLabel - 変更後のファイル名（"+++ " 行に表示）
+ * @param context - 前後に表示するコンテキスト行数
+ *
+ * @example
+ * ```typescript
+ * createUnifiedDiff("a\nb\n", "a\nc\n", "a/notes.md", "b/notes.md");
+ * // => "--- a/notes.md\n+++ b/notes.md\n@@ -1,2 +1,2 @@\n a\n-b\n+c\n"
+ * ```
+ */
+export function createUnifiedDiff(
+  oldText: string | null,
+  newText: string | null,
+  oldLabel: string,
+  newLabel: string,
+  context = DEFAULT_CONTEXT
+): string {
+  const edits = diffLines(splitLines(oldText ?? ""), splitLines(newText ?? ""));
+  if (oldText !== null && newText !== null && edits.every(edit => edit.op === " ")) {
+    return "";
+  }
+
+  // 変更行の前後 context 行をまとめてハンクにする（間が 2*context 行以下なら1つにつなげる）
+  const changed = edits.map((edit, index) => (edit.op === " " ? -1 : index)).filter(index => index >= 0);
+  const ranges: Array<[number, number]> = [];
+  for (const index of changed) {
+    const start = Math.max(0, index - context);
+    const end = Math.min(edits.length, index + context + 1);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      ranges.push([start, end]);
+    }
+  }
+
+  const output = [`--- ${oldText === null ? "/dev/null" : oldLabel}`, `+++ ${newText === null ? "/dev/null" : newLabel}`];
+  let oldLine = 1;
+  let newLine = 1;
+  let position = 0;
+  for (const [start, end] of ranges) {
+    for (; position < start; position++) {
+      oldLine++;
+      newLine++;
+    }
+    const hunk = edits.slice(start, end);
+    const oldCount = hunk.filter(edit => edit.op !== "+").length;
+    const newCount = hunk.filter(edit => edit.op !== "-").length;
+    output.push(`@@ -${formatRange(oldLine, oldCount)} +${formatRange(newLine, newCount)} @@`);
+    for (const edit of hunk) {
+      output.push(edit.op + edit.line.replace(/\n$/, ""));
+      if (!edit.line.endsWith("\n")) {
+        output.push("\\ No newline at end of file");
+      }
+    }
+    oldLine += oldCount;
+    newLine += newCount;
+    position = end;
+  }
+  return output.join("\n") + "\n";
+}
+
+/**
+ * 差分に表示するパス（ファイルを含む許可ルートからの相対パス）
+ */
+function displayPath(resolvedPath: string, config: Config): string {
+  return relativeToRoot(resolvedPath, config) || resolvedPath;
+}
+
+/**
+ * 収集した変更1件分の差分を作成します（文字コード・改行コードだけが変わる場合はその旨を添える）
+ */
+function describeChange(change: PendingChange, config: Config): string {
+  const label = displayPath(change.path, config);
+  const before = change.before === null ? null : decodeText(change.before);
+  const after = change.after === null ? null : decodeText(change.after);
+  const diff = createUnifiedDiff(before?.text ?? null, after?.text ?? null, `a/${label}`, `b/${label}`);
+
+  const notes: string[] = [];
+  if (before && after && !sameFormat(before.format, after.format)) {
+    notes.push(`形式: ${formatTextFormat(before.format)} → ${formatTextFormat(after.format)}`);
+  }
+  if (!diff) {
+    notes.push("内容の差分はありません");
+  }
+  return [`=== ${label} ===`, ...notes, diff].filter(Boolean).join("\n");
+}
+
+function sameFormat(a: TextFormat, b: TextFormat): boolean {
+  return a.encoding === b.encoding && a.bom === b.bom && a.eol === b.eol;
+}
+
+/**
+ * 書き込み系ツールをドライランで実行し、書き込まれるはずだった変更を unified diff で返します
+ *
+ * 検証はすべて通常どおり行い、エラーになった場合はその結果をそのまま返します。
+ */
+export async function previewChanges(run: () => Promise<ToolResult>, config: Config): Promise<ToolResult> {
+  const { result, changes } = await collectDryRun(run);
+  if (result.isError) {
+    return result;
+  }
+  if (changes.length === 0) {
+    return { content: [{ type: "text", text: "ドライラン: 変更はありません（ディスクには書き込んでいません）。" }] };
+  }
+
+  const header = `=== ドライラン: ${changes.length} ファイルを変更予定（ディスクには書き込んでいません） ===`;
+  return {
+    content: [
+      { type: "text", text: [header, ...changes.map(change => describeChange(change, config))].join("\n\n") }
+    ]
+  };
+}
+
+export interface DiffFilesOptions {
+  other_path?: string;
+  content?: string;
+  context_lines?: number;
+}
+
+export async function handleDiffFiles(filePath: string, config: Config, options?: DiffFilesOptions): Promise<ToolResult> {
+  try {
+    console.error(`diff_files: ${filePath}`);
+
+    // 比較対象は別のファイルか提案内容のどちらか一方
+    const { other_path: otherPath, content, context_lines: contextLines = DEFAULT_CONTEXT } = options ?? {};
+    if ((otherPath === undefined) === (content === undefined)) {
+      return errorResult("INVALID_ARGUMENT", t("diffTargetRequired"), {});
+    }
+
+    // パス・拡張子・存在・サイズのチェック
+    const original = await readValidatedFile(filePath, config);
+    if (!original.ok) {
+      return original.result;
+    }
+    const label = displayPath(original.resolvedPath, config);
+
+    let otherText = "";
+    let otherLabel = "";
+    if (otherPath !== undefined) {
+      const other = await readValidatedFile(otherPath, config);
+      if (!other.ok) {
+        return other.result;
+      }
+      otherText = other.content;
+      otherLabel = `b/${displayPath(other.resolvedPath, config)}`;
+    } else if (content !== undefined) {
+      if (!validateContentSize(content, original.resolvedPath, config)) {
+        return sizeLimitResult(filePath, "contentTooLarge", maxFileSizeFor(original.resolvedPath, config));
+      }
+      otherText = content;
+      otherLabel = `b/${label}`;
+    }
+
+    const diff = createUnifiedDiff(original.content, otherText, `a/${label}`, otherLabel, contextLines);
+    return {
+      content: [{ type: "text", text: diff || "差分はありません。" }]
+    };
+  } catch (error) {
+    return failureResult("diff", error, { path: filePath });
+  }
+}
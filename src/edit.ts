@@ -0,0 +1,279 @@
+/**
+ * @fileoverview テキスト編集のための純粋関数群
+ * ファイルI/Oを伴わず、文字列に対する置換処理と変更箇所の算出を行います。
+ */
+
+import { OperationFailure } from "./errors.js";
+import { t } from "./messages.js";
+
+/**
+ * 文字列置換による編集操作
+ */
+export interface EditOperation {
+  /** 置換対象の文字列（ファイル内で一意である必要がある） */
+  old_string: string;
+  /** 置換後の文字列 */
+  new_string: string;
+  /** trueの場合、一致するすべての箇所を置換する */
+  replace_all?: boolean;
+}
+
+/**
+ * 編集結果（成功時は編集後の内容と変更行範囲、失敗時はエラーコード・メッセージと失敗した編集の番号）
+ */
+export type EditResult =
+  | { ok: true; content: string; changedLines: Array<{ start: number; end: number }>; replacements: number }
+  | OperationFailure;
+
+/**
+ * 文字列中の指定オフセットが何行目にあたるかを返します（1から開始）
+ */
+export function lineNumberAt(content: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset && i < content.length; i++) {
+    if (content.charCodeAt(i) === 10) line++;
+  }
+  return line;
+}
+
+/**
+ * 文字列中のすべての出現位置を返します（重なりなし）
+ */
+function findOccurrences(content: string, search: string): number[] {
+  const positions: number[] = [];
+  let index = content.indexOf(search);
+  while (index !== -1) {
+    positions.push(index);
+    index = content.indexOf(search, index + search.length);
+  }
+  return positions;
+}
+
+/**
+ * 複数の置換操作を順番に適用します
+ *
+ * いずれかの操作が失敗した場合は何も適用せずにエラーを返すため、
+ * 呼び出し側は結果をそのまま書き込むだけでアトミックな編集になります。
+ * 変更行は最終的な内容における行番号で返します。
+ *
+ * @param content - 編集前の内容
+ * @param edits - 適用する置換操作の配列
+ * @returns 編集結果
+ *
+ * @example
+ * ```typescript
+ * applyEdits("a\nb\nc", [{ old_string: "b", new_string: "B" }]);
+ * // => { ok: true, content: "a\nB\nc", changedLines: [{ start: 2, end: 2 }], replacements: 1 }
+ * applyEdits("x x", [{ old_string: "x", new_string: "y" }]);
+ * // => { ok: false, code: "INVALID_ARGUMENT", message: "...", details: { edit: 1, lines: [1, 1] } } （2箇所に一致するため曖昧）
+ * ```
+ */
+export function applyEdits(content: string, edits: EditOperation[]): EditResult {
+  if (!Array.isArray(edits) || edits.length === 0) {
+    return { ok: false, code: "INVALID_ARGUMENT", message: t("editsRequired"), details: {} };
+  }
+
+  let current = content;
+  // 置換済み領域（現在の内容におけるオフセット）
+  let regions: Array<{ start: number; end: number }> = [];
+  let replacements = 0;
+
+  for (let i = 0; i < edits.length; i++) {
+    const { old_string: oldString, new_string: newString, replace_all: replaceAll } = edits[i];
+    const edit = i + 1;
+
+    if (typeof oldString !== "string" || typeof newString !== "string") {
+      return { ok: false, code: "INVALID_ARGUMENT", message: t("editNotString", { edit }), details: { edit } };
+    }
+    if (oldString.length === 0) {
+      return { ok: false, code: "INVALID_ARGUMENT", message: t("editEmptyOldString", { edit }), details: { edit } };
+    }
+
+    const positions = findOccurrences(current, oldString);
+    if (positions.length === 0) {
+      return { ok: false, code: "NOT_FOUND", message: t("editNotFound", { edit }), details: { edit } };
+    }
+    if (positions.length > 1 && !replaceAll) {
+      const lines = positions.map(pos => lineNumberAt(current, pos));
+      return { ok: false, code: "INVALID_ARGUMENT", message: t("editAmbiguous", { edit, lines }), details: { edit, matches: positions.length, lines } };
+    }
+
+    // 後ろから置換して、前方のオフセットがずれないようにする
+    const delta = newString.length - oldString.length;
+    for (let p = positions.length - 1; p >= 0; p--) {
+      const position = positions[p];
+      current = current.slice(0, position) + newString + current.slice(position + oldString.length);
+      regions = regions.map(region =>
+        region.start >= position + oldString.length
+          ? { start: region.start + delta, end: region.end + delta }
+          : region
+      );
+    }
+    positions.forEach((position, index) => {
+      const start = position + index * delta;
+      regions.push({ start, end: start + newString.length });
+    });
+    replacements += positions.length;
+  }
+
+  const changedLines = regions
+    .map(region => {
+      const start = lineNumberAt(current, region.start);
+      const end = start + (current.slice(region.start, region.end).match(/\n/g)?.length ?? 0);
+      return { start, end };
+    })
+    .sort((a, b) => a.start - b.start)
+    .reduce<Array<{ start: number; end: number }>>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range.start <= last.end + 1) {
+        last.end = Math.max(last.end, range.end);
+      } else {
+        merged.push({ ...range });
+      }
+      return merged;
+    }, []);
+
+  return { ok: true, content: current, changedLines, replacements };
+}
+
+/**
+ * 行範囲の配列を "3, 10-12" のような表示用文字列に変換します
+ */
+export function formatLineRanges(ranges: Array<{ start: number; end: number }>): string {
+  return ranges
+    .map(range => range.start === range.end ? `${range.start}` : `${range.start}-${range.end}`)
+    .join(', ');
+}
+
+/**
+ * 行単位の編集結果（成功時は編集後の内容と編集領域の新しい行番号）
+ *
+ * 削除のように編集領域が空になる場合は end = start - 1 となります。
+ */
+export type LineEditResult =
+  | { ok: true; content: string; start: number; end: number; totalLines: number }
+  | OperationFailure;
+
+/**
+ * 挿入・置換するテキストを行配列に変換します
+ *
+ * 末尾の改行1つは行の区切りとみなして取り除きます（"foo\n" は1行として扱う）。
+ */
+function toLines(text: string): string[] {
+  const normalized = text.endsWith('\n') ? text.slice(0, -1) : text;
+  return normalized.split('\n');
+}
+
+/**
+ * 行範囲がファイルの範囲内かを検証します
+ */
+export function checkLineRange(start: number, end: number, totalLines: number): OperationFailure | null {
+  const details = { start_line: start, end_line: end, total_lines: totalLines };
+  if (!Number.isInteger(start) || !Number.isInteger(end)) {
+    return { ok: false, code: "INVALID_ARGUMENT", message: t("lineNotInteger"), details };
+  }
+  if (start < 1 || start > totalLines) {
+    return { ok: false, code: "INVALID_ARGUMENT", message: t("lineOutOfRange", { line: start, total: totalLines }), details };
+  }
+  if (end < start || end > totalLines) {
+    return { ok: false, code: "INVALID_ARGUMENT", message: t("endLineOutOfRange", { line: end, start, total: totalLines }), details };
+  }
+  return null;
+}
+
+/**
+ * 指定行の前または後にテキストを挿入します
+ *
+ * 行番号は read_file と同じく `\n` で分割した1始まりの番号です。
+ *
+ * @param content - 編集前の内容
+ * @param line - 基準となる行番号
+ * @param text - 挿入するテキスト（複数行可）
+ * @param position - "before"（指定行の前）または "after"（指定行の後）
+ * @returns 挿入された行の新しい行番号を含む編集結果
+ *
+ * @example
+ * ```typescript
+ * insertLines("a\nc", 1, "b", "after"); // => { ok: true, content: "a\nb\nc", start: 2, end: 2, totalLines: 3 }
+ * ```
+ */
+export function insertLines(content: string, line: number, text: string, position: "before" | "after" = "after"): LineEditResult {
+  const inserted = toLines(text);
+  // 空ファイルへの挿入は位置に関わらずファイル全体になる
+  if (content === "") {
+    return { ok: true, content: inserted.join('\n'), start: 1, end: inserted.length, totalLines: inserted.length };
+  }
+
+  const lines = content.split('\n');
+  const rangeError = checkLineRange(line, line, lines.length);
+  if (rangeError) {
+    return rangeError;
+  }
+
+  const index = position === "before" ? line - 1 : line;
+  lines.splice(index, 0, ...inserted);
+  return { ok: true, content: lines.join('\n'), start: index + 1, end: index + inserted.length, totalLines: lines.length };
+}
+
+/**
+ * 指定した行範囲を削除します
+ *
+ * @param content - 編集前の内容
+ * @param start - 削除開始行（1から開始）
+ * @param end - 削除終了行（この行を含む）
+ * @returns 編集結果（start は削除箇所の直後の行が繰り上がった行番号）
+ */
+export function deleteLines(content: string, start: number, end: number): LineEditResult {
+  const lines = content.split('\n');
+  const rangeError = checkLineRange(start, end, lines.length);
+  if (rangeError) {
+    return rangeError;
+  }
+
+  lines.splice(start - 1, end - start + 1);
+  return { ok: true, content: lines.join('\n'), start, end: start - 1, totalLines: lines.length };
+}
+
+/**
+ * 指定した行範囲を新しいテキストで置き換えます
+ *
+ * @param content - 編集前の内容
+ * @param start - 置換開始行（1から開始）
+ * @param end - 置換終了行（この行を含む）
+ * @param text - 置き換えるテキスト（複数行可、空文字列は空行1行）
+ * @returns 置換後の領域の新しい行番号を含む編集結果
+ */
+export function replaceLines(content: string, start: number, end: number, text: string): LineEditResult {
+  const lines = content.split('\n');
+  const rangeError = checkLineRange(start, end, lines.length);
+  if (rangeError) {
+    return rangeError;
+  }
+
+  const replacement = toLines(text);
+  lines.splice(start - 1, end - start + 1, ...replacement);
+  return { ok: true, content: lines.join('\n'), start, end: start + replacement.length - 1, totalLines: lines.length };
+}
+
+/**
+ * 編集領域の前後を行番号付きで表示するスニペットを作成します
+ *
+ * 編集された行には ">" を付けます。続けて read_file や行編集ツールを呼ぶ際の目安になります。
+ *
+ * @param content - 編集後の内容
+ * @param start - 編集領域の開始行
+ * @param end - 編集領域の終了行（空の領域の場合は start - 1）
+ * @param contextLines - 前後に表示する行数
+ */
+export function formatContextSnippet(content: string, start: number, end: number, contextLines = 2): string {
+  const lines = content.split('\n');
+  const from = Math.max(1, start - contextLines);
+  const to = Math.min(lines.length, Math.max(end, start - 1) + contextLines);
+  const width = String(to).length;
+  const snippet: string[] = [];
+  for (let line = from; line <= to; line++) {
+    const marker = line >= start && line <= end ? '>' : ' ';
+    snippet.push(`${marker} ${String(line).padStart(width)}| ${lines[line - 1]}`);
+  }
+  return snippet.join('\n');
+}
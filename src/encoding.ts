@@ -0,0 +1,250 @@
+/**
+ * @fileoverview 文字コード・BOM・改行コードの判定と変換
+ * - 読み取り時に UTF-8 / Shift_JIS、BOM の有無、主な改行コード（LF / CRLF）を判定する
+ * - 編集はすべて BOM を除いた LF 改行のテキストに対して行い、書き込み時に元の形式へ戻す
+ * - CRLF と LF が混在するファイルでは、変更されていない行の改行コードをそのまま残す
+ */
+
+import iconv from "iconv-lite";
+import * as fs from "fs/promises";
+import { diffLines } from "./diff.js";
+import { t } from "./messages.js";
+
+/** 対応する文字コード（Shift_JIS は Windows 拡張を含む CP932 として扱う） */
+export type TextEncoding = "utf-8" | "shift_jis";
+
+/** 改行コード */
+export type EolStyle = "lf" | "crlf";
+
+/**
+ * ファイルのテキスト形式
+ */
+export interface TextFormat {
+  encoding: TextEncoding;
+  bom: boolean;
+  eol: EolStyle;
+  /** CRLF の行と LF の行が混在しているか */
+  mixedEol: boolean;
+}
+
+/**
+ * 書き込み系ツールで形式を明示的に変換するためのオプション
+ */
+export interface TextFormatOptions {
+  /** 文字コード（utf-8 / utf-8-bom / shift_jis）。省略時は既存ファイルの形式を維持 */
+  encoding?: string;
+  /** 改行コード（lf / crlf）。省略時は既存ファイルの形式を維持 */
+  eol?: string;
+}
+
+/** 新規ファイルの既定の形式 */
+export const DEFAULT_TEXT_FORMAT: TextFormat = { encoding: "utf-8", bom: false, eol: "lf", mixedEol: false };
+
+const UTF8_BOM = Buffer.from([0xef, 0xbb, 0xbf]);
+
+// 形式判定のために読み取るファイル先頭のバイト数
+const DETECT_SAMPLE_SIZE = 64 * 1024;
+
+/**
+ * バイト列が UTF-8 として正しいか判定します（末尾で途切れた文字は許容）
+ */
+function isValidUtf8(buffer: Buffer): boolean {
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(buffer, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * バイト列の文字コード・BOM・主な改行コードを判定します
+ *
+ * UTF-8 として不正で、Shift_JIS として矛盾なく読める場合に Shift_JIS と判定します。
+ * 改行コードは CRLF の行が LF のみの行より多い場合に CRLF とします。
+ */
+export function detectTextFormat(buffer: Buffer): TextFormat {
+  const bom = buffer.subarray(0, 3).equals(UTF8_BOM);
+  let encoding: TextEncoding = "utf-8";
+  if (!bom && !isValidUtf8(buffer) && !iconv.decode(buffer, "cp932").includes("\uFFFD")) {
+    encoding = "shift_jis";
+  }
+
+  let crlf = 0;
+  let lf = 0;
+  for (let i = buffer.indexOf(0x0a); i !== -1; i = buffer.indexOf(0x0a, i + 1)) {
+    if (i > 0 && buffer[i - 1] === 0x0d) {
+      crlf++;
+    } else {
+      lf++;
+    }
+  }
+  return { encoding, bom, eol: crlf > lf ? "crlf" : "lf", mixedEol: crlf > 0 && lf > 0 };
+}
+
+/**
+ * ファイル先頭を読み取って形式を判定します（ファイル全体は読み込まない）
+ */
+export async function detectFileFormat(filePath: string): Promise<TextFormat> {
+  const handle = await fs.open(filePath, "r");
+  try {
+    const buffer = Buffer.alloc(DETECT_SAMPLE_SIZE);
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+    return detectTextFormat(buffer.subarray(0, bytesRead));
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * バイト列を指定の形式で文字列に変換します（BOM を除き、CRLF 形式なら改行を LF に揃える）
+ */
+export function decodeWithFormat(buffer: Buffer, format: TextFormat): string {
+  const body = format.bom && buffer.subarray(0, 3).equals(UTF8_BOM) ? buffer.subarray(3) : buffer;
+  const text = format.encoding === "shift_jis" ? iconv.decode(body, "cp932") : body.toString("utf-8");
+  return format.eol === "crlf" ? text.replace(/\r\n/g, "\n") : text;
+}
+
+/**
+ * バイト列の形式を判定し、編集用のテキストに変換します
+ */
+export function decodeText(buffer: Buffer): { text: string; format: TextFormat } {
+  const format = detectTextFormat(buffer);
+  return { text: decodeWithFormat(buffer, format), format };
+}
+
+/**
+ * encodeText のオプション
+ */
+export interface EncodeOptions {
+  /** LF 形式の場合も既存の CRLF を LF に揃えるか（明示的な変換時のみ） */
+  convertEol?: boolean;
+  /** 書き込み前の内容（改行コードが混在するファイルで、変更されていない行の改行コードを引き継ぐ） */
+  previous?: Buffer | null;
+  /** CSV として扱うか（改行コードが混在するファイルで、引用符で囲まれたフィールド内の改行を変換しない） */
+  csv?: boolean;
+}
+
+/**
+ * 編集用のテキストを指定の形式のバイト列に変換します
+ *
+ * CRLF 形式で LF の行も混在するファイルは、すべての改行を CRLF にせず、編集で加わった行だけを CRLF にします。
+ *
+ * @param text - LF 改行のテキスト
+ * @param format - 書き込む形式
+ */
+export function encodeText(text: string, format: TextFormat, options: EncodeOptions = {}): Buffer {
+  let normalized = text;
+  if (format.eol === "crlf" && format.mixedEol) {
+    const previous = options.previous
+      ? decodeWithFormat(options.previous, { ...detectTextFormat(options.previous), eol: "lf" })
+      : "";
+    normalized = restoreLineEndings(text, previous, options.csv ?? false);
+  } else if (format.eol === "crlf") {
+    normalized = text.replace(/\r?\n/g, "\r\n");
+  } else if (options.convertEol) {
+    normalized = text.replace(/\r\n/g, "\n");
+  }
+  const body = format.encoding === "shift_jis" ? iconv.encode(normalized, "cp932") : Buffer.from(normalized, "utf-8");
+  return format.bom ? Buffer.concat([UTF8_BOM, body]) : body;
+}
+
+/**
+ * 改行コードが混在する CRLF 形式のファイルに書き込むテキストの改行を決めます
+ *
+ * 書き込み前の内容と行単位で比較し、変更されていない行は元の改行コード、編集で加わった行は CRLF にします。
+ * CSV の場合、加わった行のうち引用符で囲まれたフィールド内の改行は LF のまま残します。
+ *
+ * @param text - LF 改行のテキスト
+ * @param previous - 改行コードを正規化していない書き込み前のテキスト
+ */
+function restoreLineEndings(text: string, previous: string, csv: boolean): string {
+  const before = previous.split("\n");
+  const after = text.replace(/\r\n/g, "\n").split("\n");
+  const edits = diffLines(before.map(line => line.replace(/\r$/, "")), after);
+
+  let output = "";
+  let inQuote = false;
+  let beforeIndex = 0;
+  let afterIndex = 0;
+  for (const edit of edits) {
+    if (edit.op === "-") {
+      beforeIndex++;
+      continue;
+    }
+    const line = after[afterIndex];
+    if (csv) {
+      inQuote = (line.split('"').length - 1) % 2 === 1 ? !inQuote : inQuote;
+    }
+    let ending = csv && inQuote ? "\n" : "\r\n";
+    if (edit.op === " ") {
+      // 元の行が最終行（改行なし）でなければ、その行の改行コードを引き継ぐ
+      if (beforeIndex < before.length - 1) {
+        ending = before[beforeIndex].endsWith("\r") ? "\r\n" : "\n";
+      }
+      beforeIndex++;
+    }
+    output += afterIndex < after.length - 1 ? line + ending : line;
+    afterIndex++;
+  }
+  return output;
+}
+
+/**
+ * 既存の形式に、明示的に指定された encoding / eol を反映します
+ */
+export function applyFormatOptions(
+  base: TextFormat,
+  options?: TextFormatOptions
+): { ok: true; format: TextFormat } | { ok: false; message: string } {
+  const format = { ...base };
+  if (options?.encoding !== undefined) {
+    switch (options.encoding.toLowerCase().replace(/_/g, "-")) {
+      case "utf-8":
+      case "utf8":
+        format.encoding = "utf-8";
+        format.bom = false;
+        break;
+      case "utf-8-bom":
+      case "utf8-bom":
+        format.encoding = "utf-8";
+        format.bom = true;
+        break;
+      case "shift-jis":
+      case "sjis":
+      case "cp932":
+        format.encoding = "shift_jis";
+        format.bom = false;
+        break;
+      default:
+        return { ok: false, message: t("unsupportedEncoding", { encoding: options.encoding }) };
+    }
+  }
+  if (options?.eol !== undefined) {
+    const eol = options.eol.toLowerCase();
+    if (eol !== "lf" && eol !== "crlf") {
+      return { ok: false, message: t("unsupportedEol", { eol: options.eol }) };
+    }
+    format.eol = eol;
+    format.mixedEol = false;
+  }
+  return { ok: true, format };
+}
+
+/**
+ * テキストを指定の形式で表現できるか確認します（Shift_JIS で表せない文字の検出）
+ */
+export function canEncode(text: string, format: TextFormat): boolean {
+  if (format.encoding !== "shift_jis") {
+    return true;
+  }
+  return iconv.decode(iconv.encode(text, "cp932"), "cp932") === text;
+}
+
+/**
+ * ツールの引数に渡せる表記で形式を表示します
+ */
+export function formatTextFormat(format: TextFormat): string {
+  const encoding = format.encoding === "utf-8" && format.bom ? "utf-8-bom" : format.encoding;
+  return `encoding: ${encoding}, eol: ${format.eol}`;
+}
@@ -0,0 +1,177 @@
+/**
+ * @fileoverview ツールのエラー結果
+ * - 失敗時は isError を立て、安定したエラーコードと詳細情報（JSON）を返す
+ * - 人が読むメッセージはロケールカタログ（messages.ts）から作成する
+ */
+
+import * as path from "path";
+import { Config } from "./config.js";
+import { ToolResult } from "./handlers.js";
+import { Action, t } from "./messages.js";
+import { policyFor } from "./policy.js";
+
+/**
+ * クライアントが判定に使う安定したエラーコード
+ */
+export type ErrorCode =
+  /** 許可ルート外のパス */
+  | "PATH_DENIED"
+  /** 許可されていない拡張子 */
+  | "EXTENSION_NOT_ALLOWED"
+  /** ポリシーで読み取り専用とされたパスへの書き込み */
+  | "READ_ONLY"
+  /** ファイル・書き込み内容のサイズ制限超過 */
+  | "SIZE_LIMIT"
+  /** ファイル・ディレクトリ・履歴・キー・見出し・CSV の行や列・置換対象の文字列が存在しない */
+  | "NOT_FOUND"
+  /** 作成先（ファイル・CSV の列）が既に存在する */
+  | "ALREADY_EXISTS"
+  /** expected_hash の不一致（読み取り後に変更された） */
+  | "CONFLICT"
+  /** 引数の値が不正 */
+  | "INVALID_ARGUMENT"
+  /** 書き込む内容に構文エラーがある（JSON・YAML・CSV・Markdown） */
+  | "SYNTAX_ERROR"
+  /** 編集・パッチなどの操作を内容に適用できない */
+  | "OPERATION_FAILED"
+  /** 上記以外の入出力エラー */
+  | "IO_ERROR";
+
+/**
+ * エラー結果を作成します
+ *
+ * 1つ目の content はロケールに応じたメッセージ、2つ目は `{"error": {"code", "details"}}` 形式の JSON です。
+ *
+ * @param code - エラーコード
+ * @param message - メッセージ（先頭の「エラー:」は付けない）
+ * @param details - 機械処理用の詳細情報（対象パス・制限値など）
+ */
+export function errorResult(code: ErrorCode, message: string, details: Record<string, unknown> = {}): ToolResult {
+  const prefix = code === "CONFLICT" ? t("conflictPrefix") : t("errorPrefix");
+  return {
+    isError: true,
+    content: [
+      { type: "text", text: `${prefix}: ${message}` },
+      { type: "text", text: JSON.stringify({ error: { code, details } }) }
+    ]
+  };
+}
+
+/**
+ * エラー結果からエラーコードを取り出します（成功した結果はnull）
+ */
+export function errorCodeOf(result: ToolResult): ErrorCode | null {
+  if (!result.isError) {
+    return null;
+  }
+  try {
+    return JSON.parse(result.content[1]?.text ?? "").error.code as ErrorCode;
+  } catch {
+    return "OPERATION_FAILED";
+  }
+}
+
+/**
+ * 内容に操作を適用できなかった結果（エラー結果にするときのコードと詳細情報を持つ）
+ */
+export interface OperationFailure {
+  ok: false;
+  code: ErrorCode;
+  message: string;
+  details: Record<string, unknown>;
+}
+
+/**
+ * 解析・編集の途中で検出した失敗を、エラーコードと詳細情報ごと呼び出し元に伝える例外
+ */
+export class OperationError extends Error {
+  constructor(readonly code: ErrorCode, message: string, readonly details: Record<string, unknown> = {}) {
+    super(message);
+  }
+}
+
+/**
+ * 例外を OperationFailure に変換します（OperationError 以外は OPERATION_FAILED）
+ */
+export function operationFailureOf(error: unknown): OperationFailure {
+  if (error instanceof OperationError) {
+    return { ok: false, code: error.code, message: error.message, details: error.details };
+  }
+  return { ok: false, code: "OPERATION_FAILED", message: error instanceof Error ? error.message : t("unknownError"), details: {} };
+}
+
+/**
+ * 例外から「〜に失敗しました」のエラー結果を作成します（存在しないファイルは NOT_FOUND）
+ *
+ * OperationError はそのメッセージ・エラーコード・詳細情報のままエラー結果にします。
+ */
+export function failureResult(action: Action, error: unknown, details: Record<string, unknown> = {}): ToolResult {
+  if (error instanceof OperationError) {
+    return errorResult(error.code, error.message, { ...details, ...error.details });
+  }
+  const reason = error instanceof Error ? error.message : t("unknownError");
+  const errno = (error as NodeJS.ErrnoException | undefined)?.code;
+  const code: ErrorCode = errno === "ENOENT" || errno === "ENOTDIR" ? "NOT_FOUND" : "IO_ERROR";
+  return errorResult(code, t("failed", { action, reason }), { ...details, ...(errno ? { errno } : {}) });
+}
+
+/**
+ * 許可ルート外のパスに対するエラー結果を作成します
+ */
+export function pathDeniedResult(filePath: string, showPath = false): ToolResult {
+  return errorResult("PATH_DENIED", t("pathDenied", { path: showPath ? filePath : undefined }), { path: filePath });
+}
+
+/**
+ * 許可されていない拡張子に対するエラー結果を作成します
+ */
+export function extensionNotAllowedResult(resolvedPath: string, config: Config): ToolResult {
+  const extension = path.extname(resolvedPath);
+  const allowed = policyFor(resolvedPath, config).allowedExtensions;
+  return errorResult("EXTENSION_NOT_ALLOWED", t("extensionNotAllowed", { extension, allowed }), { path: resolvedPath, extension, allowed });
+}
+
+/**
+ * 読み取り専用のパスへの書き込みに対するエラー結果を作成します
+ */
+export function readOnlyResult(filePath: string): ToolResult {
+  return errorResult("READ_ONLY", t("readOnly", { path: filePath }), { path: filePath });
+}
+
+/**
+ * 存在しないファイルに対するエラー結果を作成します
+ */
+export function fileNotFoundResult(filePath: string): ToolResult {
+  return errorResult("NOT_FOUND", t("fileNotFound", { path: filePath }), { path: filePath });
+}
+
+/** サイズ制限超過のメッセージ（状況ごと） */
+export type SizeLimitMessage =
+  | "fileTooLarge"
+  | "fileTooLargeUsePaging"
+  | "rangeTooLarge"
+  | "contentTooLarge"
+  | "appendTooLarge"
+  | "editTooLarge";
+
+/**
+ * サイズ制限超過のエラー結果を作成します
+ *
+ * @param message - 状況に応じたメッセージ（書き込み内容・追記後・編集後など）
+ * @param limit - 対象パスに適用される最大ファイルサイズ
+ * @param size - 実際のサイズ（バイト数、分かる場合）
+ */
+export function sizeLimitResult(filePath: string, message: SizeLimitMessage, limit: number, size?: number): ToolResult {
+  return errorResult("SIZE_LIMIT", t(message, { limit }), { path: filePath, limit, ...(size !== undefined ? { size } : {}) });
+}
+
+/**
+ * 楽観的排他制御で競合を検出した際のエラー結果を作成します
+ */
+export function conflictResult(filePath: string, expectedHash: string, actualHash: string | null): ToolResult {
+  return errorResult(
+    "CONFLICT",
+    t("conflict", { path: filePath, expected: expectedHash, actual: actualHash }),
+    { path: filePath, expected_hash: expectedHash, actual_hash: actualHash }
+  );
+}
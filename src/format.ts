@@ -0,0 +1,398 @@
+/**
+ * @fileoverview ファイルの整形
+ * - JSON: 指定したインデントで整形し、必要に応じてキーを並べ替える（数値の表記やキーの順序は元のテキストのまま）
+ * - YAML: インデントを揃える（コメント・スカラーの書式は維持）
+ * - Markdown: テーブルの列を揃え、箇条書きの記号を "-" に統一する
+ * - Markdown・テキスト・ログの行末の空白を削除し、すべての形式でファイル末尾の改行を1つにする（CSV のフィールドは変更しない）
+ * - format_file は変更内容を unified diff で返し、書き込み系ツールの format: true でも同じ整形を行う
+ */
+
+import * as path from "path";
+import YAML from "yaml";
+import { Config } from "./config.js";
+import { ToolResult, WriteOptions, modifyFile, readValidatedFile } from "./handlers.js";
+import { errorResult, failureResult } from "./errors.js";
+import { createUnifiedDiff } from "./diff.js";
+import { isTableStart, splitTableRow } from "./markdown.js";
+import { relativeToRoot } from "./policy.js";
+import { Diagnostic, FORMAT_LABELS, formatDiagnostics, syntaxErrorResult, syntaxFormatOf, validateSyntax } from "./syntax.js";
+import { t } from "./messages.js";
+
+/** JSON・YAML のインデント幅の既定値 */
+const DEFAULT_INDENT = 2;
+
+/** インデント幅の上限 */
+const MAX_INDENT = 8;
+
+export interface FormatOptions {
+  /** JSON・YAML のインデント幅（JSON は 0 で1行にする） */
+  indent?: number;
+  /** JSON・YAML のオブジェクトのキーを並べ替える */
+  sort_keys?: boolean;
+}
+
+/**
+ * 整形の結果（changes は行った整形の説明。JSON・YAML の構文エラーで整形できない場合はそのエラーの診断）
+ */
+export type FormatResult =
+  | { ok: true; content: string; changes: string[] }
+  | { ok: false; diagnostics: Diagnostic[] };
+
+/**
+ * 元のテキストを保持した JSON の構文木（文字列・数値・リテラルは元の表記のまま）
+ *
+ * start / end は元のテキスト中の値の範囲、オブジェクトの各要素の start はキーの開始位置です。
+ */
+export type JsonNode = { start: number; end: number } & (
+  | { type: "object"; entries: Array<{ key: string; start: number; value: JsonNode }> }
+  | { type: "array"; items: JsonNode[] }
+  | { type: "scalar"; raw: string }
+);
+
+/**
+ * JSON テキストを構文木に変換します（JSON.parse で検証済みのテキストを前提とする）
+ */
+export function parseJsonTree(text: string): JsonNode {
+  let i = 0;
+  const skipWhitespace = () => {
+    while (/\s/.test(text[i] ?? "")) i++;
+  };
+  const readString = () => {
+    const start = i++;
+    while (text[i] !== '"') i += text[i] === "\\" ? 2 : 1;
+    return text.slice(start, ++i);
+  };
+  const readValue = (): JsonNode => {
+    skipWhitespace();
+    const start = i;
+    const char = text[i];
+    if (char === "{") {
+      i++;
+      const entries: Array<{ key: string; start: number; value: JsonNode }> = [];
+      skipWhitespace();
+      while (text[i] !== "}") {
+        skipWhitespace();
+        const keyStart = i;
+        const key = readString();
+        skipWhitespace();
+        i++; // ":"
+        entries.push({ key, start: keyStart, value: readValue() });
+        skipWhitespace();
+        if (text[i] === ",") i++;
+        skipWhitespace();
+      }
+      i++;
+      return { type: "object", entries, start, end: i };
+    }
+    if (char === "[") {
+      i++;
+      const items: JsonNode[] = [];
+      skipWhitespace();
+      while (text[i] !== "]") {
+        items.push(readValue());
+        skipWhitespace();
+        if (text[i] === ",") i++;
+        skipWhitespace();
+      }
+      i++;
+      return { type: "array", items, start, end: i };
+    }
+    if (char === '"') {
+      return { type: "scalar", raw: readString(), start, end: i };
+    }
+    const match = /^[^\s,\]}]+/.exec(text.slice(i, i + 400)) as RegExpExecArray;
+    i += match[0].length;
+    return { type: "scalar", raw: match[0], start, end: i };
+  };
+  return readValue();
+}
+
+function printJsonTree(node: JsonNode, indent: number, sortKeys: boolean, depth = 0): string {
+  if (node.type === "scalar") {
+    return node.raw;
+  }
+  const children = node.type === "object"
+    ? (sortKeys ? [...node.entries].sort((a, b) => compareKeys(JSON.parse(a.key), JSON.parse(b.key))) : node.entries)
+        .map(entry => `${entry.key}:${indent > 0 ? " " : ""}${printJsonTree(entry.value, indent, sortKeys, depth + 1)}`)
+    : node.items.map(item => printJsonTree(item, indent, sortKeys, depth + 1));
+  const [open, close] = node.type === "object" ? ["{", "}"] : ["[", "]"];
+  if (children.length === 0) {
+    return open + close;
+  }
+  if (indent === 0) {
+    return open + children.join(",") + close;
+  }
+  const inner = " ".repeat(indent * (depth + 1));
+  return `${open}\n${children.map(child => inner + child).join(",\n")}\n${" ".repeat(indent * depth)}${close}`;
+}
+
+function compareKeys(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function formatJson(content: string, indent: number, sortKeys: boolean): FormatResult {
+  if (content.trim() === "") {
+    return { ok: true, content, changes: [] };
+  }
+  const diagnostics = validateSyntax(content, "json");
+  if (diagnostics.length > 0) {
+    return { ok: false, diagnostics };
+  }
+  const formatted = printJsonTree(parseJsonTree(content), indent, sortKeys) + "\n";
+  const changes = formatted === content ? [] : [`JSON をインデント ${indent} で整形${sortKeys ? "、キーを並べ替え" : ""}`];
+  return { ok: true, content: formatted, changes };
+}
+
+function formatYaml(content: string, indent: number, sortKeys: boolean): FormatResult {
+  const diagnostics = validateSyntax(content, "yaml").filter(diagnostic => diagnostic.severity === "error");
+  if (diagnostics.length > 0) {
+    return { ok: false, diagnostics };
+  }
+  if (content.trim() === "") {
+    return { ok: true, content, changes: [] };
+  }
+  const documents = YAML.parseAllDocuments(content);
+  const formatted = (Array.isArray(documents) ? documents : [documents])
+    .map(document => {
+      if (sortKeys) {
+        // 読み込んだマップのキーは sortMapEntries では並べ替わらないため、各マップの項目を並べ替える
+        YAML.visit(document, {
+          Map: (_, map) => {
+            const keyOf = (pair: YAML.Pair) => String(YAML.isScalar(pair.key) ? pair.key.value : pair.key);
+            map.items.sort((a, b) => compareKeys(keyOf(a), keyOf(b)));
+          },
+        });
+      }
+      return document.toString({ indent, lineWidth: 0, flowCollectionPadding: false });
+    })
+    .join("");
+  const changes = formatted === content ? [] : [`YAML をインデント ${indent} で整形${sortKeys ? "、キーを並べ替え" : ""}`];
+  return { ok: true, content: formatted, changes };
+}
+
+/**
+ * 等幅フォントでの表示幅（全角文字は2）
+ */
+function displayWidth(text: string): number {
+  let width = 0;
+  for (const char of text) {
+    const code = char.codePointAt(0) as number;
+    const wide = (code >= 0x1100 && code <= 0x115f) || (code >= 0x2e80 && code <= 0xa4cf) || (code >= 0xac00 && code <= 0xd7a3)
+      || (code >= 0xf900 && code <= 0xfaff) || (code >= 0xfe30 && code <= 0xfe4f) || (code >= 0xff00 && code <= 0xff60)
+      || (code >= 0xffe0 && code <= 0xffe6) || (code >= 0x1f300 && code <= 0x1faff) || (code >= 0x20000 && code <= 0x3fffd);
+    width += wide ? 2 : 1;
+  }
+  return width;
+}
+
+/**
+ * テーブル（ヘッダー行・区切り行・本文の行）の列幅を揃えます
+ */
+export function alignTable(rows: string[]): string[] {
+  const cells = rows.map(splitTableRow);
+  const columns = Math.max(...cells.map(row => row.length));
+  const alignments = Array.from({ length: columns }, (_, index) => {
+    const spec = cells[1][index] ?? "";
+    return spec.startsWith(":") && spec.endsWith(":") ? "center" : spec.endsWith(":") ? "right" : spec.startsWith(":") ? "left" : "none";
+  });
+  const widths = Array.from({ length: columns }, (_, index) =>
+    Math.max(3, ...cells.filter((_, row) => row !== 1).map(row => displayWidth(row[index] ?? "")))
+  );
+
+  const pad = (text: string, index: number) => {
+    const space = widths[index] - displayWidth(text);
+    if (alignments[index] === "right") return " ".repeat(space) + text;
+    if (alignments[index] === "center") return " ".repeat(Math.floor(space / 2)) + text + " ".repeat(Math.ceil(space / 2));
+    return text + " ".repeat(space);
+  };
+  const delimiter = (index: number) => {
+    const alignment = alignments[index];
+    const dashes = "-".repeat(widths[index] - (alignment === "center" ? 2 : alignment === "none" ? 0 : 1));
+    return alignment === "center" ? `:${dashes}:` : alignment === "left" ? `:${dashes}` : alignment === "right" ? `${dashes}:` : dashes;
+  };
+
+  // 足りないセルは空のセルで補う（GFM では空のセルとして表示されるため見た目は変わらない）
+  return cells.map((row, rowIndex) => {
+    const line = Array.from({ length: columns }, (_, index) => rowIndex === 1 ? delimiter(index) : pad(row[index] ?? "", index));
+    return `| ${line.join(" | ")} |`;
+  });
+}
+
+/**
+ * 行末の空白を削除します
+ */
+function trimLines(lines: string[]): { lines: string[]; count: number } {
+  const trimmed = lines.map(line => line.replace(/[ \t]+$/, ""));
+  return { lines: trimmed, count: trimmed.filter((line, index) => line !== lines[index]).length };
+}
+
+/**
+ * Markdown のテーブル・箇条書き・行末の空白を整えます（フロントマターとコードフェンス内は行末の空白の削除のみ）
+ *
+ * 段落の途中の行末の2つ以上の空白は改行の指定のため、2つにそろえて残します。
+ */
+function formatMarkdown(content: string): FormatResult {
+  const lines = content.split("\n");
+  const output: string[] = [];
+  let tables = 0;
+  let markers = 0;
+  let start = 0;
+
+  if (lines[0]?.trimEnd() === "---") {
+    const close = lines.findIndex((line, index) => index > 0 && /^(---|\.\.\.)\s*$/.test(line));
+    if (close > 0) {
+      output.push(...lines.slice(0, close + 1));
+      start = close + 1;
+    }
+  }
+
+  // 改行の指定として残す行（テーブル・箇条書きの整形では行数が変わらないため、行番号で対応付ける）
+  const hardBreaks = new Set<number>();
+  let fence: { char: string; length: number } | null = null;
+  for (let i = start; i < lines.length; i++) {
+    const line = lines[i];
+    const fenceMatch = /^ {0,3}(`{3,}|~{3,})/.exec(line);
+    if (fence) {
+      if (fenceMatch && fenceMatch[1][0] === fence.char && fenceMatch[1].length >= fence.length
+        && line.slice(fenceMatch[0].length).trim() === "") {
+        fence = null;
+      }
+      output.push(line);
+      continue;
+    }
+    if (fenceMatch) {
+      fence = { char: fenceMatch[1][0], length: fenceMatch[1].length };
+      output.push(line);
+      continue;
+    }
+
+    if (isTableStart(line, lines[i + 1])) {
+      let end = i + 2;
+      while (end < lines.length && lines[end].trim() !== "" && lines[end].includes("|")) end++;
+      const table = lines.slice(i, end);
+      const aligned = alignTable(table);
+      if (aligned.some((row, index) => row !== table[index])) tables++;
+      output.push(...aligned);
+      i = end - 1;
+      continue;
+    }
+
+    if (/\S {2,}$/.test(line) && !/^ {0,3}#/.test(line) && (lines[i + 1] ?? "").trim() !== "") {
+      hardBreaks.add(i);
+    }
+
+    // 箇条書きの記号 "*" "+" を "-" にする（"* * *" のような区切り線は除く）
+    const bullet = /^(\s*)[*+](\s+)/.exec(line);
+    if (bullet && !/^\s*([*\-_])(\s*\1){2,}\s*$/.test(line)) {
+      output.push(`${bullet[1]}-${bullet[2]}${line.slice(bullet[0].length)}`);
+      markers++;
+      continue;
+    }
+    output.push(line);
+  }
+
+  const trimmed = trimLines(output);
+  let whitespace = 0;
+  const result = trimmed.lines.map((line, index) => {
+    const kept = hardBreaks.has(index) ? `${line}  ` : line;
+    if (kept !== output[index]) whitespace++;
+    return kept;
+  });
+
+  const changes: string[] = [];
+  if (tables > 0) changes.push(`テーブル ${tables} 個の列を揃えました`);
+  if (markers > 0) changes.push(`箇条書きの記号を "-" に統一（${markers} 行）`);
+  if (whitespace > 0) changes.push(`行末の空白を削除（${whitespace} 行）`);
+  return { ok: true, content: result.join("\n"), changes };
+}
+
+/**
+ * 内容をファイルの形式に合わせて整形します
+ *
+ * @param content - 整形する内容（LF 改行のテキスト）
+ * @param filePath - 形式の判定に使うファイルのパス
+ * @param options - JSON・YAML のインデントとキーの並べ替え
+ * @returns 整形後の内容と行った整形の説明（JSON・YAML の構文エラーで整形できない場合はその診断）
+ */
+export function formatContent(content: string, filePath: string, options?: FormatOptions): FormatResult {
+  const indent = options?.indent ?? DEFAULT_INDENT;
+  const sortKeys = options?.sort_keys ?? false;
+  const format = syntaxFormatOf(filePath);
+
+  let result: FormatResult = { ok: true, content, changes: [] };
+  if (format === "json") {
+    result = formatJson(content, indent, sortKeys);
+  } else if (format === "yaml") {
+    result = formatYaml(content, indent, sortKeys);
+  } else if (format === "markdown") {
+    result = formatMarkdown(content);
+  }
+  if (!result.ok) {
+    return result;
+  }
+
+  // テキスト・ログは行末の空白を削除する（CSV はフィールドの末尾の空白もデータのため残す）
+  const changes = [...result.changes];
+  let formatted = result.content;
+  if (format === null) {
+    const trimmed = trimLines(formatted.split("\n"));
+    if (trimmed.count > 0) changes.push(`行末の空白を削除（${trimmed.count} 行）`);
+    formatted = trimmed.lines.join("\n");
+  }
+
+  // ファイル末尾の改行を1つにする（空のファイルはそのまま）
+  const withFinalNewline = formatted.trim() === "" ? formatted : formatted.replace(/\n*$/, "\n");
+  if (withFinalNewline !== formatted && format !== "json" && format !== "yaml") {
+    changes.push("末尾の改行を1つに統一");
+  }
+  return { ok: true, content: withFinalNewline, changes };
+}
+
+export async function handleFormatFile(
+  filePath: string,
+  config: Config,
+  options?: FormatOptions & WriteOptions
+): Promise<ToolResult> {
+  try {
+    console.error(`format_file: ${filePath}`);
+
+    // パス・拡張子・存在・サイズのチェックと、整形できるか（構文エラーがないか）の確認
+    const file = await readValidatedFile(filePath, config);
+    if (!file.ok) {
+      return file.result;
+    }
+    const minIndent = syntaxFormatOf(file.resolvedPath) === "json" ? 0 : 1;
+    if (options?.indent !== undefined && (options.indent < minIndent || options.indent > MAX_INDENT)) {
+      return errorResult("INVALID_ARGUMENT", t("invalidIndent", { min: minIndent, max: MAX_INDENT }), { path: filePath });
+    }
+    const formatted = formatContent(file.content, file.resolvedPath, options);
+    if (!formatted.ok) {
+      const format = syntaxFormatOf(file.resolvedPath);
+      return syntaxErrorResult(filePath, {
+        message: `${t("formatInvalid", { format: format ? FORMAT_LABELS[format] : "" })}\n${formatDiagnostics(formatted.diagnostics)}`,
+        diagnostics: formatted.diagnostics,
+      });
+    }
+    if (formatted.content === file.content) {
+      return { content: [{ type: "text", text: `ファイル '${filePath}' は整形済みです（変更はありません）。` }] };
+    }
+
+    // 書き込みは編集系ツールと同じ処理で行う（読み取り後に変更された場合も最新の内容を整形する）
+    const label = relativeToRoot(file.resolvedPath, config) || path.basename(file.resolvedPath);
+    return await modifyFile("format_file", filePath, config, options, original => {
+      const result = formatContent(original, file.resolvedPath, options);
+      if (!result.ok) {
+        return { ok: false, message: formatDiagnostics(result.diagnostics) };
+      }
+      const diff = createUnifiedDiff(original, result.content, `a/${label}`, `b/${label}`);
+      const changes = result.changes.length > 0 ? `（${result.changes.join("、")}）` : "";
+      return {
+        ok: true,
+        content: result.content,
+        message: `成功: ファイル '${filePath}' を整形しました${changes}。\n${diff}`.trimEnd(),
+      };
+    });
+  } catch (error) {
+    return failureResult("format", error, { path: filePath });
+  }
+}
@@ -0,0 +1,256 @@
+/**
+ * @fileoverview glob パターンと .gitignore の照合
+ * 外部依存なしで `*` `**` `?` `[...]` `{a,b}` を扱います。パスは常に "/" 区切りの相対パスで照合します。
+ */
+
+import * as fs from "fs/promises";
+import * as path from "path";
+
+/**
+ * 正規表現の特殊文字をエスケープします
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * glob パターンを正規表現のソース文字列に変換します（アンカーなし）
+ */
+function globToRegExpSource(pattern: string): string {
+  let source = "";
+  let i = 0;
+  while (i < pattern.length) {
+    const char = pattern[i];
+    if (char === "*") {
+      if (pattern[i + 1] === "*") {
+        // "**/" は0個以上のディレクトリ、末尾の "**" は以降すべてに一致
+        if (pattern[i + 2] === "/") {
+          source += "(?:.*/)?";
+          i += 3;
+        } else {
+          source += ".*";
+          i += 2;
+        }
+      } else {
+        source += "[^/]*";
+        i++;
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+      i++;
+    } else if (char === "[") {
+      const end = pattern.indexOf("]", i + 1);
+      if (end === -1) {
+        source += "\\[";
+        i++;
+      } else {
+        let body = pattern.slice(i + 1, end).replace(/\\/g, "\\\\");
+        if (body.startsWith("!")) body = "^" + body.slice(1);
+        source += `[${body}]`;
+        i = end + 1;
+      }
+    } else if (char === "{") {
+      const end = pattern.indexOf("}", i + 1);
+      if (end === -1) {
+        source += "\\{";
+        i++;
+      } else {
+        const alternatives = pattern.slice(i + 1, end).split(",").map(globToRegExpSource);
+        source += `(?:${alternatives.join("|")})`;
+        i = end + 1;
+      }
+    } else {
+      source += escapeRegExp(char);
+      i++;
+    }
+  }
+  return source;
+}
+
+/**
+ * glob パターンを正規表現に変換します
+ *
+ * @param pattern - glob パターン（例: "docs/**\/*.md", "*.{yaml,yml}"）
+ * @param flags - 正規表現フラグ
+ * @returns パス全体に一致する正規表現
+ */
+export function globToRegExp(pattern: string, flags = ""): RegExp {
+  return new RegExp(`^${globToRegExpSource(pattern)}$`, flags);
+}
+
+/**
+ * 相対パスが glob パターンに一致するかを判定します
+ *
+ * "/" を含まないパターン（例: "*.md"）はファイル名だけで照合し、
+ * "/" を含むパターンは相対パス全体で照合します。
+ *
+ * @example
+ * ```typescript
+ * matchGlob("docs/guide/intro.md", "*.md");        // => true
+ * matchGlob("docs/guide/intro.md", "docs/*.md");   // => false
+ * matchGlob("docs/guide/intro.md", "docs/**\/*.md"); // => true
+ * ```
+ */
+export function matchGlob(relativePath: string, pattern: string): boolean {
+  const normalized = relativePath.split(path.sep).join("/");
+  const target = pattern.includes("/") ? normalized : path.posix.basename(normalized);
+  return globToRegExp(pattern.replace(/^\.\//, "")).test(target);
+}
+
+/**
+ * .gitignore の1ルール
+ */
+interface IgnoreRule {
+  regex: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+}
+
+/**
+ * ディレクトリごとの .gitignore ルール（ルールはそのディレクトリからの相対パスで照合）
+ */
+export interface IgnoreScope {
+  /** ルールを定義した .gitignore のあるディレクトリ（走査起点からの相対パス、起点は ""） */
+  base: string;
+  rules: IgnoreRule[];
+}
+
+/**
+ * .gitignore の内容をルールに変換します
+ */
+export function parseGitignore(content: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.replace(/(?<!\\)\s+$/, "");
+    if (line === "" || line.startsWith("#")) continue;
+
+    const negated = line.startsWith("!");
+    if (negated) line = line.slice(1);
+    const directoryOnly = line.endsWith("/");
+    if (directoryOnly) line = line.slice(0, -1);
+
+    // 先頭または途中に "/" を含むパターンは .gitignore の位置からの相対、そうでなければ任意の階層に一致
+    const anchored = line.includes("/");
+    line = line.replace(/^\//, "");
+    const source = globToRegExpSource(line);
+    rules.push({
+      regex: new RegExp(anchored ? `^${source}$` : `^(?:.*/)?${source}$`),
+      negated,
+      directoryOnly,
+    });
+  }
+  return rules;
+}
+
+/**
+ * 指定ディレクトリの .gitignore を読み込みます（存在しない場合はnull）
+ */
+export async function loadIgnoreScope(directory: string, base: string): Promise<IgnoreScope | null> {
+  try {
+    const content = await fs.readFile(path.join(directory, ".gitignore"), "utf-8");
+    return { base, rules: parseGitignore(content) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 相対パスが .gitignore ルールにより無視されるかを判定します
+ *
+ * 後に書かれたルールほど優先され、"!" で始まるルールは無視を打ち消します。
+ *
+ * @param relativePath - 走査起点からの "/" 区切りの相対パス
+ * @param isDirectory - ディレクトリかどうか（"foo/" 形式のルール用）
+ * @param scopes - 親ディレクトリから順に並んだ .gitignore ルール
+ */
+export function isIgnored(relativePath: string, isDirectory: boolean, scopes: IgnoreScope[]): boolean {
+  let ignored = false;
+  for (const scope of scopes) {
+    if (scope.base !== "" && !relativePath.startsWith(scope.base + "/")) continue;
+    const target = scope.base === "" ? relativePath : relativePath.slice(scope.base.length + 1);
+    for (const rule of scope.rules) {
+      if (rule.directoryOnly && !isDirectory) continue;
+      if (rule.regex.test(target)) {
+        ignored = !rule.negated;
+      }
+    }
+  }
+  return ignored;
+}
+
+/**
+ * ディレクトリ走査のオプション
+ */
+export interface WalkOptions {
+  /** ファイルを絞り込む glob パターン */
+  pattern?: string;
+  /** 走査する深さの上限（0は指定ディレクトリ直下のみ） */
+  maxDepth?: number;
+  /** .gitignore に一致するファイル・ディレクトリ（および .git）を除外する */
+  respectGitignore?: boolean;
+  /** 返すファイル数の上限 */
+  maxResults?: number;
+  /** ファイルを結果に含めるかの追加条件（絶対パスを受け取る） */
+  filter?: (absolutePath: string) => boolean;
+}
+
+/**
+ * 走査で見つかったファイル
+ */
+export interface WalkEntry {
+  /** 走査起点からの "/" 区切りの相対パス */
+  relativePath: string;
+  absolutePath: string;
+}
+
+/**
+ * ディレクトリを再帰的に走査してファイルを列挙します
+ *
+ * シンボリックリンクは許可ルート外への脱出を避けるため辿りません。
+ * 結果は相対パスの昇順です。
+ *
+ * @param directory - 走査起点の（解決済み）ディレクトリ
+ * @param options - 走査オプション
+ * @returns 見つかったファイルと、上限で打ち切ったかどうか
+ */
+export async function walkFiles(directory: string, options: WalkOptions = {}): Promise<{ files: WalkEntry[]; truncated: boolean }> {
+  const maxDepth = options.maxDepth ?? Infinity;
+  const maxResults = options.maxResults ?? Infinity;
+  const files: WalkEntry[] = [];
+  let truncated = false;
+
+  async function visit(absoluteDir: string, relativeDir: string, depth: number, scopes: IgnoreScope[]): Promise<void> {
+    const currentScopes = scopes.slice();
+    if (options.respectGitignore) {
+      const scope = await loadIgnoreScope(absoluteDir, relativeDir);
+      if (scope) currentScopes.push(scope);
+    }
+
+    const entries = await fs.readdir(absoluteDir, { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+      if (truncated) return;
+      const relativePath = relativeDir === "" ? entry.name : `${relativeDir}/${entry.name}`;
+      const absolutePath = path.join(absoluteDir, entry.name);
+
+      if (entry.isDirectory()) {
+        if (options.respectGitignore && (entry.name === ".git" || isIgnored(relativePath, true, currentScopes))) continue;
+        if (depth < maxDepth) {
+          await visit(absolutePath, relativePath, depth + 1, currentScopes);
+        }
+      } else if (entry.isFile()) {
+        if (options.respectGitignore && isIgnored(relativePath, false, currentScopes)) continue;
+        if (options.pattern && !matchGlob(relativePath, options.pattern)) continue;
+        if (options.filter && !options.filter(absolutePath)) continue;
+        if (files.length >= maxResults) {
+          truncated = true;
+          return;
+        }
+        files.push({ relativePath, absolutePath });
+      }
+    }
+  }
+
+  await visit(directory, "", 0, []);
+  return { files, truncated };
+}
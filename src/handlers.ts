@@ -1,16 +1,149 @@
 import * as fs from "fs/promises";
 import * as path from "path";
 import { Config } from "./config.js";
-import { validatePath, validateFileExtension, checkFileSize, validateContentSize } from "./validation.js";
+import {
+  resolvePath,
+  validateFileExtension,
+  checkFileSize,
+  validateContentSize,
+  maxFileSizeFor,
+  isWritable,
+  computeContentHash,
+  readContentHash
+} from "./validation.js";
+import {
+  EditOperation,
+  LineEditResult,
+  applyEdits,
+  checkLineRange,
+  formatLineRanges,
+  insertLines,
+  deleteLines,
+  replaceLines,
+  formatContextSnippet
+} from "./edit.js";
+import { FilePatch, parsePatch, applyHunks, formatHunkResults } from "./patch.js";
+import { commitWrite, commitDelete, commitRestore, listVersions, popVersion } from "./history.js";
+import { walkFiles } from "./glob.js";
+import { getLineIndex, lineRangeBytes, readBytes, readByteChunk } from "./reader.js";
+import {
+  TextFormat,
+  TextFormatOptions,
+  DEFAULT_TEXT_FORMAT,
+  detectFileFormat,
+  decodeText,
+  decodeWithFormat,
+  encodeText,
+  applyFormatOptions,
+  canEncode,
+  formatTextFormat
+} from "./encoding.js";
+import {
+  errorResult,
+  failureResult,
+  pathDeniedResult,
+  extensionNotAllowedResult,
+  fileNotFoundResult,
+  sizeLimitResult,
+  readOnlyResult,
+  conflictResult,
+  operationFailureOf,
+  ErrorCode
+} from "./errors.js";
+import { t } from "./messages.js";
+import { policyFor, relativeToRoot } from "./policy.js";
+import { formatContent } from "./format.js";
+import { SyntaxCheck, checkSyntax, syntaxErrorResult, syntaxFormatOf } from "./syntax.js";
 
 export interface ToolResult {
   content: Array<{ type: string; text: string }>;
+  /** 失敗時のみ true（エラーコードと詳細は errors.ts を参照） */
+  isError?: boolean;
 }
 
 export interface ReadFileOptions {
   start_line?: number;
   end_line?: number;
   max_lines?: number;
+  /** 読み取り開始バイト位置（offset/length 指定時は行指定より優先） */
+  offset?: number;
+  /** 読み取る最大バイト数（既定・上限は maxFileSize） */
+  length?: number;
+}
+
+// offset/length 読み取りの最小単位（UTF-8 の1文字が必ず収まる大きさ）
+const MIN_CHUNK_LENGTH = 4;
+
+export interface WriteOptions extends TextFormatOptions {
+  /** read_file / get_file_info で取得したハッシュ。ディスク上の内容と異なる場合は書き込みを拒否する */
+  expected_hash?: string;
+}
+
+/** 書き込む内容を整形するか（write_file / create_file / append_file の format） */
+export interface FormatFlag {
+  format?: boolean;
+}
+
+/**
+ * 書き込む内容を、既存ファイルの形式（または明示的に指定された形式）のバイト列に変換します
+ *
+ * @param target - 書き込み先のパスと書き込み前の内容（改行コードが混在するファイルで変更されていない行の改行コードを引き継ぐ）
+ */
+export function encodeForWrite(
+  content: string,
+  base: TextFormat,
+  options?: TextFormatOptions,
+  target?: { path: string; previous?: Buffer | null }
+): { ok: true; data: Buffer; format: TextFormat } | { ok: false; message: string } {
+  const resolved = applyFormatOptions(base, options);
+  if (!resolved.ok) {
+    return resolved;
+  }
+  if (!canEncode(content, resolved.format)) {
+    return { ok: false, message: t("notRepresentable") };
+  }
+  const data = encodeText(content, resolved.format, {
+    convertEol: options?.eol !== undefined,
+    previous: target?.previous,
+    csv: target !== undefined && syntaxFormatOf(target.path) === "csv"
+  });
+  return { ok: true, data, format: resolved.format };
+}
+
+/**
+ * 既存の内容に追記した結果のバイト列を作成します
+ *
+ * 追記する内容は既存ファイルの形式に合わせ、既存部分のバイト列はそのまま残します。
+ * encoding / eol 指定時はファイル全体を変換します。
+ */
+function appendEncoded(
+  filePath: string,
+  existing: Buffer,
+  content: string,
+  options?: TextFormatOptions
+): { ok: true; data: Buffer } | { ok: false; message: string } {
+  const decoded = decodeText(existing);
+  if (options?.encoding === undefined && options?.eol === undefined) {
+    const encoded = encodeForWrite(content, { ...decoded.format, bom: false }, undefined, { path: filePath });
+    return encoded.ok ? { ok: true, data: Buffer.concat([existing, encoded.data]) } : encoded;
+  }
+  return encodeForWrite(decoded.text + content, decoded.format, options, { path: filePath, previous: existing });
+}
+
+/**
+ * format: true の場合に書き込む内容を format_file と同じ規則で整形します
+ *
+ * 構文エラーで整形できない場合は内容をそのまま返し、書き込むかどうかは構文チェックに任せます。
+ */
+function formatForWrite(content: string, resolvedPath: string, options?: FormatFlag): { content: string; note: string } {
+  if (!options?.format) {
+    return { content, note: "" };
+  }
+  const result = formatContent(content.replace(/\r\n?/g, "\n"), resolvedPath);
+  if (!result.ok) {
+    return { content, note: "\n整形: 構文エラーがあるため整形しませんでした。" };
+  }
+  return { content: result.content, note: result.changes.length > 0 ? `\n整形: ${result.changes.join("、")}` : "" };
 }
 
 export async function handleReadFile(
@@ -22,362 +155,1375 @@ export async function handleReadFile(
     console.error(`read_file: ${filePath}`);
     
     // バリデーション
-    // パストラバーサル攻撃防止チェック
-    if (!validatePath(filePath)) {
-      return {
-        content: [
-          { type: "text", text: "エラー: 無効なファイルパスです。" }
-        ]
-      };
+    // ワークスペース基準でパスを解決し、許可ルート外へのアクセスを防止
+    const resolvedPath = await resolvePath(filePath, config);
+    if (!resolvedPath) {
+      return pathDeniedResult(filePath);
     }
     
     // 許可された拡張子かチェック
-    if (!validateFileExtension(filePath, config)) {
-      return {
-        content: [
-          { 
-            type: "text", 
-            text: `エラー: ファイル拡張子 '${path.extname(filePath)}' は許可されていません。許可されている拡張子: [${config.allowedExtensions.join(', ')}]` 
-          }
-        ]
-      };
+    if (!validateFileExtension(resolvedPath, config)) {
+      return extensionNotAllowedResult(resolvedPath, config);
     }
 
-    // ファイルサイズ制限チェック
-    if (!await checkFileSize(filePath, config)) {
+    // 分割読み取りの1回あたりの上限もパスごとのサイズ上限に従う
+    const maxFileSize = maxFileSizeFor(resolvedPath, config);
+
+    // バイトオフセット指定の場合は索引を使わずに該当範囲だけを読む
+    if (options?.offset !== undefined || options?.length !== undefined) {
+      const offset = Math.max(0, options.offset ?? 0);
+      const length = Math.min(Math.max(MIN_CHUNK_LENGTH, options.length ?? maxFileSize), maxFileSize);
+      const format = await detectFileFormat(resolvedPath);
+      const chunk = await readByteChunk(resolvedPath, offset, length, format);
+      const next = chunk.end < chunk.size ? `次の offset: ${chunk.end}` : "ファイル末尾まで読み取りました";
+      const header = `=== ファイル: ${filePath} ===\n=== バイト ${chunk.start}-${chunk.end} / 総 ${chunk.size} bytes（${next}） ===\n\n`;
       return {
         content: [
-          { type: "text", text: `エラー: ファイルサイズが制限を超えています（最大: ${config.maxFileSize} bytes）` }
+          { type: "text", text: header + chunk.text },
+          { type: "text", text: formatTextFormat(format) }
         ]
       };
     }
 
-    const content = await fs.readFile(filePath, 'utf-8');
-    
-    // 行数指定がある場合は該当行のみを抽出
-    if (options?.start_line || options?.end_line || options?.max_lines) {
-      const lines = content.split('\n');
-      const totalLines = lines.length;
+    // 行数指定がある場合は行の索引から該当行のみを読み取る
+    // （ファイル全体はメモリに載せないため、サイズ制限を超えるファイルもページ単位で読める）
+    if (options?.start_line !== undefined || options?.end_line !== undefined || options?.max_lines) {
+      const index = await getLineIndex(resolvedPath);
+      const format = await detectFileFormat(resolvedPath);
+      // 書き込み時の expected_hash に使うバージョントークン
+      const hashInfo = { type: "text", text: `content_hash: ${index.hash}` };
+      const totalLines = index.offsets.length;
       
       // デフォルト値設定
-      const startLine = Math.max(1, options.start_line || 1);
-      const endLine = options.end_line || totalLines;
+      const startLine = options.start_line ?? 1;
+      const endLine = options.end_line ?? totalLines;
       const maxLines = options.max_lines;
+
+      // 範囲チェック（delete_lines / replace_lines と同じ検証）
+      const invalidRange = checkLineRange(startLine, endLine, totalLines);
+      if (invalidRange) {
+        return errorResult(invalidRange.code, invalidRange.message, { path: filePath, ...invalidRange.details });
+      }
       
       // 行番号を0ベースのインデックスに変換
-      let startIndex = startLine - 1;
-      let endIndex = Math.min(endLine - 1, totalLines - 1);
+      const startIndex = startLine - 1;
+      let endIndex = endLine - 1;
       
       // max_linesが指定されている場合は制限を適用
       if (maxLines && (endIndex - startIndex + 1) > maxLines) {
         endIndex = startIndex + maxLines - 1;
       }
-      
-      // 範囲チェック
-      if (startIndex < 0 || startIndex >= totalLines) {
-        return {
-          content: [
-            { type: "text", text: `エラー: 開始行 ${startLine} がファイルの範囲外です（総行数: ${totalLines}）` }
-          ]
-        };
+
+      const range = lineRangeBytes(index, startIndex + 1, endIndex + 1);
+      if (range.end - range.start > maxFileSize) {
+        return sizeLimitResult(filePath, "rangeTooLarge", maxFileSize, range.end - range.start);
+      }
+      let resultContent = decodeWithFormat(await readBytes(resolvedPath, range.start, range.end), format);
+      // CRLF 形式の場合、範囲末尾の行に残る CR も取り除く
+      if (format.eol === "crlf") {
+        resultContent = resultContent.replace(/\r$/, "");
       }
-      
-      const selectedLines = lines.slice(startIndex, endIndex + 1);
-      const resultContent = selectedLines.join('\n');
       
       // 情報ヘッダーを追加
-      const actualEndLine = startIndex + selectedLines.length;
+      const actualEndLine = endIndex + 1;
       const header = `=== ファイル: ${filePath} ===\n=== 行 ${startLine}-${actualEndLine} / 総 ${totalLines} 行 ===\n\n`;
       
       return {
         content: [
-          { type: "text", text: header + resultContent }
+          { type: "text", text: header + resultContent },
+          hashInfo,
+          { type: "text", text: formatTextFormat(format) }
         ]
       };
     }
+
+    // ファイルサイズ制限チェック（全体を読む場合のみ）
+    if (!await checkFileSize(resolvedPath, config)) {
+      return sizeLimitResult(filePath, "fileTooLargeUsePaging", maxFileSize);
+    }
+
+    const buffer = await fs.readFile(resolvedPath);
+    const { text: content, format } = decodeText(buffer);
+    // 書き込み時の expected_hash に使うバージョントークン
+    const hashInfo = { type: "text", text: `content_hash: ${computeContentHash(buffer)}` };
     
     // オプション指定なしの場合は全ファイルを返す
     return {
       content: [
-        { type: "text", text: content }
+        { type: "text", text: content },
+        hashInfo,
+        { type: "text", text: formatTextFormat(format) }
       ]
     };
   } catch (error) {
-    return {
-      content: [
-        { 
-          type: "text", 
-          text: `エラー: ファイルの読み取りに失敗しました - ${error instanceof Error ? error.message : '不明なエラー'}` 
-        }
-      ]
-    };
+    return failureResult("read", error, { path: filePath });
   }
 }
 
-export async function handleWriteFile(filePath: string, content: string, config: Config): Promise<ToolResult> {
+export async function handleWriteFile(
+  filePath: string,
+  content: string,
+  config: Config,
+  options?: WriteOptions & FormatFlag
+): Promise<ToolResult> {
   try {
     console.error(`write_file: ${filePath}`);
     
     // バリデーション
-    // パストラバーサル攻撃防止チェック
-    if (!validatePath(filePath)) {
-      return {
-        content: [
-          { type: "text", text: "エラー: 無効なファイルパスです。" }
-        ]
-      };
+    // ワークスペース基準でパスを解決し、許可ルート外へのアクセスを防止
+    const resolvedPath = await resolvePath(filePath, config);
+    if (!resolvedPath) {
+      return pathDeniedResult(filePath);
     }
     
     // 許可された拡張子かチェック
-    if (!validateFileExtension(filePath, config)) {
-      return {
-        content: [
-          { 
-            type: "text", 
-            text: `エラー: ファイル拡張子 '${path.extname(filePath)}' は許可されていません。許可されている拡張子: [${config.allowedExtensions.join(', ')}]` 
-          }
-        ]
-      };
+    if (!validateFileExtension(resolvedPath, config)) {
+      return extensionNotAllowedResult(resolvedPath, config);
+    }
+
+    // ポリシーで読み取り専用とされたパスには書き込まない
+    if (!isWritable(resolvedPath, config)) {
+      return readOnlyResult(filePath);
+    }
+
+    // 楽観的排他制御: 読み取り後に他者が変更していないかチェック
+    if (options?.expected_hash !== undefined) {
+      const currentHash = await readContentHash(resolvedPath);
+      if (currentHash !== options.expected_hash) {
+        return conflictResult(filePath, options.expected_hash, currentHash);
+      }
+    }
+
+    // 既存ファイルの文字コード・BOM・改行コードを維持する（encoding / eol 指定時は変換）
+    const formatted = formatForWrite(content, resolvedPath, options);
+    content = formatted.content;
+    const exists = await fs.access(resolvedPath).then(() => true).catch(() => false);
+    const encoded = encodeForWrite(content, exists ? await detectFileFormat(resolvedPath) : DEFAULT_TEXT_FORMAT, options, { path: resolvedPath });
+    if (!encoded.ok) {
+      return errorResult("INVALID_ARGUMENT", encoded.message, { path: filePath });
     }
 
     // 書き込み内容のサイズ制限チェック
-    if (!validateContentSize(content, config)) {
-      return {
-        content: [
-          { type: "text", text: `エラー: 書き込み内容のサイズが制限を超えています（最大: ${config.maxFileSize} bytes）` }
-        ]
-      };
+    if (!validateContentSize(encoded.data, resolvedPath, config)) {
+      return sizeLimitResult(filePath, "contentTooLarge", maxFileSizeFor(resolvedPath, config), encoded.data.length);
     }
 
-    // 必要に応じて親ディレクトリを作成
-    const dir = path.dirname(filePath);
-    await fs.mkdir(dir, { recursive: true });
+    // 構文チェック（エラーがあれば設定に応じて拒否）
+    const syntax = await checkSyntax(resolvedPath, content, config);
+    if (!syntax.ok) {
+      return syntaxErrorResult(filePath, syntax);
+    }
 
-    await fs.writeFile(filePath, content, 'utf-8');
+    // 履歴を保存してからアトミックに書き込む（親ディレクトリは必要に応じて作成）
+    await commitWrite(resolvedPath, encoded.data, "write_file", config);
     return {
       content: [
-        { type: "text", text: `成功: ファイル '${filePath}' に書き込みました。` }
+        { type: "text", text: `成功: ファイル '${filePath}' に書き込みました（${formatTextFormat(encoded.format)}）。\ncontent_hash: ${computeContentHash(encoded.data)}${formatted.note}${syntax.warning}` }
       ]
     };
   } catch (error) {
-    return {
-      content: [
-        { 
-          type: "text", 
-          text: `エラー: ファイルの書き込みに失敗しました - ${error instanceof Error ? error.message : '不明なエラー'}` 
-        }
-      ]
-    };
+    return failureResult("write", error, { path: filePath });
   }
 }
 
-export async function handleFileExists(filePath: string): Promise<ToolResult> {
+export async function handleFileExists(filePath: string, config: Config): Promise<ToolResult> {
   try {
     console.error(`file_exists: ${filePath}`);
     
     // バリデーション
-    // パストラバーサル攻撃防止チェック
-    if (!validatePath(filePath)) {
-      return {
-        content: [
-          { type: "text", text: "エラー: 無効なファイルパスです。" }
-        ]
-      };
+    // ワークスペース基準でパスを解決し、許可ルート外へのアクセスを防止
+    const resolvedPath = await resolvePath(filePath, config);
+    if (!resolvedPath) {
+      return pathDeniedResult(filePath);
     }
 
-    const exists = await fs.access(filePath).then(() => true).catch(() => false);
+    const exists = await fs.access(resolvedPath).then(() => true).catch(() => false);
     return {
       content: [
         { type: "text", text: `ファイル '${filePath}' は${exists ? '存在します' : '存在しません'}。` }
       ]
     };
   } catch (error) {
-    return {
-      content: [
-        { 
-          type: "text", 
-          text: `エラー: ファイル存在確認に失敗しました - ${error instanceof Error ? error.message : '不明なエラー'}` 
-        }
-      ]
-    };
+    return failureResult("exists", error, { path: filePath });
   }
 }
 
-export async function handleCreateFile(filePath: string, content: string, config: Config): Promise<ToolResult> {
+export async function handleCreateFile(
+  filePath: string,
+  content: string,
+  config: Config,
+  options?: TextFormatOptions & FormatFlag
+): Promise<ToolResult> {
   try {
     console.error(`create_file: ${filePath}`);
     
     // バリデーション
-    // パストラバーサル攻撃防止チェック
-    if (!validatePath(filePath)) {
-      return {
-        content: [
-          { type: "text", text: "エラー: 無効なファイルパスです。" }
-        ]
-      };
+    // ワークスペース基準でパスを解決し、許可ルート外へのアクセスを防止
+    const resolvedPath = await resolvePath(filePath, config);
+    if (!resolvedPath) {
+      return pathDeniedResult(filePath);
     }
     
     // 許可された拡張子かチェック
-    if (!validateFileExtension(filePath, config)) {
-      return {
-        content: [
-          { 
-            type: "text", 
-            text: `エラー: ファイル拡張子 '${path.extname(filePath)}' は許可されていません。許可されている拡張子: [${config.allowedExtensions.join(', ')}]` 
-          }
-        ]
-      };
+    if (!validateFileExtension(resolvedPath, config)) {
+      return extensionNotAllowedResult(resolvedPath, config);
+    }
+
+    // ポリシーで読み取り専用とされたパスには書き込まない
+    if (!isWritable(resolvedPath, config)) {
+      return readOnlyResult(filePath);
     }
 
     // ファイルの重複作成防止チェック
-    const exists = await fs.access(filePath).then(() => true).catch(() => false);
+    const exists = await fs.access(resolvedPath).then(() => true).catch(() => false);
     if (exists) {
-      return {
-        content: [
-          { type: "text", text: `エラー: ファイル '${filePath}' は既に存在します。` }
-        ]
-      };
+      return errorResult("ALREADY_EXISTS", t("alreadyExists", { path: filePath }), { path: filePath });
+    }
+
+    // 新規ファイルは UTF-8（BOM なし）・LF が既定（encoding / eol 指定時はその形式）
+    const formatted = formatForWrite(content, resolvedPath, options);
+    content = formatted.content;
+    const encoded = encodeForWrite(content, DEFAULT_TEXT_FORMAT, options);
+    if (!encoded.ok) {
+      return errorResult("INVALID_ARGUMENT", encoded.message, { path: filePath });
     }
 
     // 書き込み内容のサイズ制限チェック
-    if (!validateContentSize(content, config)) {
-      return {
-        content: [
-          { type: "text", text: `エラー: 書き込み内容のサイズが制限を超えています（最大: ${config.maxFileSize} bytes）` }
-        ]
-      };
+    if (!validateContentSize(encoded.data, resolvedPath, config)) {
+      return sizeLimitResult(filePath, "contentTooLarge", maxFileSizeFor(resolvedPath, config), encoded.data.length);
     }
 
-    // 必要に応じて親ディレクトリを作成
-    const dir = path.dirname(filePath);
-    await fs.mkdir(dir, { recursive: true });
+    // 構文チェック（エラーがあれば設定に応じて拒否）
+    const syntax = await checkSyntax(resolvedPath, content, config, null);
+    if (!syntax.ok) {
+      return syntaxErrorResult(filePath, syntax);
+    }
 
-    await fs.writeFile(filePath, content, 'utf-8');
+    // アトミックに書き込む（親ディレクトリは必要に応じて作成）
+    await commitWrite(resolvedPath, encoded.data, "create_file", config);
     return {
       content: [
-        { type: "text", text: `成功: 新しいファイル '${filePath}' を作成しました。` }
+        { type: "text", text: `成功: 新しいファイル '${filePath}' を作成しました。${formatted.note}${syntax.warning}` }
       ]
     };
   } catch (error) {
+    return failureResult("create", error, { path: filePath });
+  }
+}
+
+export async function handleAppendFile(
+  filePath: string,
+  content: string,
+  config: Config,
+  options?: WriteOptions & FormatFlag
+): Promise<ToolResult> {
+  try {
+    console.error(`append_file: ${filePath}`);
+    
+    // バリデーション
+    // ワークスペース基準でパスを解決し、許可ルート外へのアクセスを防止
+    const resolvedPath = await resolvePath(filePath, config);
+    if (!resolvedPath) {
+      return pathDeniedResult(filePath);
+    }
+    
+    // 許可された拡張子かチェック
+    if (!validateFileExtension(resolvedPath, config)) {
+      return extensionNotAllowedResult(resolvedPath, config);
+    }
+
+    // ポリシーで読み取り専用とされたパスには書き込まない
+    if (!isWritable(resolvedPath, config)) {
+      return readOnlyResult(filePath);
+    }
+
+    // 追記対象ファイルの存在チェック
+    const exists = await fs.access(resolvedPath).then(() => true).catch(() => false);
+    if (!exists) {
+      return fileNotFoundResult(filePath);
+    }
+
+    // 楽観的排他制御: 読み取り後に他者が変更していないかチェック
+    if (options?.expected_hash !== undefined) {
+      const currentHash = await readContentHash(resolvedPath);
+      if (currentHash !== options.expected_hash) {
+        return conflictResult(filePath, options.expected_hash, currentHash);
+      }
+    }
+
+    const existing = await fs.readFile(resolvedPath);
+    let encoded = appendEncoded(resolvedPath, existing, content, options);
+    let formatNote = "";
+    if (options?.format) {
+      // 追記後の内容全体を整形する（既存部分も既存ファイルの形式で書き直す）
+      const decoded = decodeText(existing);
+      const formatted = formatForWrite(decoded.text + content, resolvedPath, options);
+      formatNote = formatted.note;
+      encoded = encodeForWrite(formatted.content, decoded.format, options, { path: resolvedPath, previous: existing });
+    }
+    if (!encoded.ok) {
+      return errorResult("INVALID_ARGUMENT", encoded.message, { path: filePath });
+    }
+    const appended = encoded.data;
+
+    // 追記後のファイルサイズ制限チェック
+    if (!validateContentSize(appended, resolvedPath, config)) {
+      return sizeLimitResult(filePath, "appendTooLarge", maxFileSizeFor(resolvedPath, config), appended.length);
+    }
+
+    // 追記後の内容全体の構文チェック（エラーがあれば設定に応じて拒否）
+    const syntax = await checkSyntax(resolvedPath, appended, config, existing);
+    if (!syntax.ok) {
+      return syntaxErrorResult(filePath, syntax);
+    }
+
+    // 追記後の内容全体をアトミックに書き込む
+    await commitWrite(resolvedPath, appended, "append_file", config);
+    const newHash = computeContentHash(appended);
+    return {
+      content: [
+        { type: "text", text: `成功: ファイル '${filePath}' に内容を追記しました。\ncontent_hash: ${newHash}${formatNote}${syntax.warning}` }
+      ]
+    };
+  } catch (error) {
+    return failureResult("append", error, { path: filePath });
+  }
+}
+
+/**
+ * get_file_info 用に文字コード・BOM・改行コードの表示を作成します
+ */
+async function describeFileFormat(filePath: string): Promise<Record<string, string>> {
+  const format = await detectFileFormat(filePath);
+  return {
+    文字コード: format.encoding === "shift_jis" ? "Shift_JIS" : "UTF-8",
+    BOM: format.bom ? "あり" : "なし",
+    改行コード: format.eol.toUpperCase()
+  };
+}
+
+export async function handleGetFileInfo(filePath: string, config: Config): Promise<ToolResult> {
+  try {
+    console.error(`get_file_info: ${filePath}`);
+    
+    // バリデーション
+    // ワークスペース基準でパスを解決し、許可ルート外へのアクセスを防止
+    const resolvedPath = await resolvePath(filePath, config);
+    if (!resolvedPath) {
+      return pathDeniedResult(filePath);
+    }
+
+    const stats = await fs.stat(resolvedPath);
+    const info = {
+      ファイルパス: resolvedPath,
+      ファイルサイズ: `${stats.size} bytes`,
+      作成日時: stats.birthtime.toLocaleString('ja-JP'),
+      更新日時: stats.mtime.toLocaleString('ja-JP'),
+      ファイル種別: stats.isFile() ? 'ファイル' : stats.isDirectory() ? 'ディレクトリ' : 'その他',
+      拡張子: path.extname(resolvedPath),
+      許可状態: validateFileExtension(resolvedPath, config) ? '許可' : '非許可',
+      アクセス: policyFor(resolvedPath, config).access,
+      ...(stats.isFile() ? await describeFileFormat(resolvedPath) : {}),
+      ...(stats.isFile() ? { content_hash: await readContentHash(resolvedPath) } : {})
+    };
+
     return {
       content: [
         { 
           type: "text", 
-          text: `エラー: ファイルの作成に失敗しました - ${error instanceof Error ? error.message : '不明なエラー'}` 
+          text: Object.entries(info)
+            .map(([key, value]) => `${key}: ${value}`)
+            .join('\n')
         }
       ]
     };
+  } catch (error) {
+    return failureResult("info", error, { path: filePath });
+  }
+}
+
+/**
+ * 読み取り系ツール共通の処理で、検証済みのファイル内容を返します
+ *
+ * パス・拡張子・存在・サイズのチェックを行い、問題がある場合はそのまま返せるエラー結果を返します。
+ */
+export async function readValidatedFile(
+  filePath: string,
+  config: Config
+): Promise<{ ok: true; resolvedPath: string; content: string; hash: string; format: TextFormat } | { ok: false; result: ToolResult }> {
+  const error = (result: ToolResult) => ({ ok: false as const, result });
+
+  // ワークスペース基準でパスを解決し、許可ルート外へのアクセスを防止
+  const resolvedPath = await resolvePath(filePath, config);
+  if (!resolvedPath) {
+    return error(pathDeniedResult(filePath));
+  }
+
+  // 許可された拡張子かチェック
+  if (!validateFileExtension(resolvedPath, config)) {
+    return error(extensionNotAllowedResult(resolvedPath, config));
   }
+
+  // 対象ファイルの存在チェック
+  const exists = await fs.access(resolvedPath).then(() => true).catch(() => false);
+  if (!exists) {
+    return error(fileNotFoundResult(filePath));
+  }
+
+  // ファイルサイズ制限チェック
+  if (!await checkFileSize(resolvedPath, config)) {
+    return error(sizeLimitResult(filePath, "fileTooLarge", maxFileSizeFor(resolvedPath, config)));
+  }
+
+  const buffer = await fs.readFile(resolvedPath);
+  const { text, format } = decodeText(buffer);
+  return { ok: true, resolvedPath, content: text, hash: computeContentHash(buffer), format };
 }
 
-export async function handleAppendFile(filePath: string, content: string, config: Config): Promise<ToolResult> {
+/**
+ * 変換関数の結果（成功時は新しい内容と結果メッセージ、失敗時のエラーコードの既定は OPERATION_FAILED）
+ */
+export type ModifyResult =
+  | { ok: true; content: string; message: string }
+  | { ok: false; message: string; code?: ErrorCode; details?: Record<string, unknown> };
+
+/**
+ * 既存ファイルを読み込み、変換関数の結果で書き換える編集系ツール共通の処理
+ *
+ * パス・拡張子・存在・サイズ・expected_hash のチェックを行ったうえで内容をメモリ上で変換し、
+ * 変換が失敗した場合やサイズ制限を超える場合はファイルに一切書き込みません。
+ */
+export async function modifyFile(
+  tool: string,
+  filePath: string,
+  config: Config,
+  options: WriteOptions | undefined,
+  transform: (content: string) => ModifyResult
+): Promise<ToolResult> {
   try {
-    console.error(`append_file: ${filePath}`);
-    
     // バリデーション
-    // パストラバーサル攻撃防止チェック
-    if (!validatePath(filePath)) {
-      return {
-        content: [
-          { type: "text", text: "エラー: 無効なファイルパスです。" }
-        ]
-      };
+    // ワークスペース基準でパスを解決し、許可ルート外へのアクセスを防止
+    const resolvedPath = await resolvePath(filePath, config);
+    if (!resolvedPath) {
+      return pathDeniedResult(filePath);
     }
     
     // 許可された拡張子かチェック
-    if (!validateFileExtension(filePath, config)) {
-      return {
-        content: [
-          { 
-            type: "text", 
-            text: `エラー: ファイル拡張子 '${path.extname(filePath)}' は許可されていません。許可されている拡張子: [${config.allowedExtensions.join(', ')}]` 
-          }
-        ]
-      };
+    if (!validateFileExtension(resolvedPath, config)) {
+      return extensionNotAllowedResult(resolvedPath, config);
     }
 
-    // 追記対象ファイルの存在チェック
-    const exists = await fs.access(filePath).then(() => true).catch(() => false);
+    // ポリシーで読み取り専用とされたパスには書き込まない
+    if (!isWritable(resolvedPath, config)) {
+      return readOnlyResult(filePath);
+    }
+
+    // 編集対象ファイルの存在チェック
+    const exists = await fs.access(resolvedPath).then(() => true).catch(() => false);
     if (!exists) {
-      return {
-        content: [
-          { type: "text", text: `エラー: ファイル '${filePath}' が存在しません。` }
-        ]
-      };
+      return fileNotFoundResult(filePath);
     }
 
-    // 追記後のファイルサイズ制限チェック
-    const stats = await fs.stat(filePath);
-    const newSize = stats.size + Buffer.byteLength(content, 'utf8');
-    if (newSize > config.maxFileSize) {
-      return {
-        content: [
-          { type: "text", text: `エラー: 追記後のファイルサイズが制限を超えます（最大: ${config.maxFileSize} bytes）` }
-        ]
-      };
+    // ファイルサイズ制限チェック
+    if (!await checkFileSize(resolvedPath, config)) {
+      return sizeLimitResult(filePath, "fileTooLarge", maxFileSizeFor(resolvedPath, config));
+    }
+
+    // 変更はメモリ上で行い、失敗したら書き込まない
+    const buffer = await fs.readFile(resolvedPath);
+
+    // 楽観的排他制御: 読み取り後に他者が変更していないかチェック
+    if (options?.expected_hash !== undefined) {
+      const currentHash = computeContentHash(buffer);
+      if (currentHash !== options.expected_hash) {
+        return conflictResult(filePath, options.expected_hash, currentHash);
+      }
+    }
+
+    // BOM を除いた LF 改行のテキストとして編集し、書き込み時に元の形式へ戻す
+    const { text: original, format } = decodeText(buffer);
+    const result = transform(original);
+    if (!result.ok) {
+      return errorResult(result.code ?? "OPERATION_FAILED", t("unchanged", { message: result.message }), { path: filePath, ...result.details });
     }
 
-    await fs.appendFile(filePath, content, 'utf-8');
+    const encoded = encodeForWrite(result.content, format, options, { path: resolvedPath, previous: buffer });
+    if (!encoded.ok) {
+      return errorResult("INVALID_ARGUMENT", t("unchanged", { message: encoded.message }), { path: filePath });
+    }
+
+    // 編集後のサイズ制限チェック
+    if (!validateContentSize(encoded.data, resolvedPath, config)) {
+      return sizeLimitResult(filePath, "editTooLarge", maxFileSizeFor(resolvedPath, config), encoded.data.length);
+    }
+
+    // 編集後の構文チェック（エラーがあれば設定に応じて拒否）
+    const syntax = await checkSyntax(resolvedPath, result.content, config, original);
+    if (!syntax.ok) {
+      return syntaxErrorResult(filePath, syntax);
+    }
+
+    await commitWrite(resolvedPath, encoded.data, tool, config);
     return {
       content: [
-        { type: "text", text: `成功: ファイル '${filePath}' に内容を追記しました。` }
+        { type: "text", text: `${result.message}\ncontent_hash: ${computeContentHash(encoded.data)}${syntax.warning}` }
       ]
     };
   } catch (error) {
+    return failureResult("edit", error, { path: filePath });
+  }
+}
+
+/**
+ * 行編集の結果を、編集領域の新しい行番号と前後のスニペット付きメッセージに変換します
+ */
+function toLineModifyResult(filePath: string, action: string, result: LineEditResult): ModifyResult {
+  if (!result.ok) {
+    return result;
+  }
+  const region = result.end >= result.start
+    ? `行 ${result.start}-${result.end}`
+    : `行 ${result.start}（削除位置）`;
+  return {
+    ok: true,
+    content: result.content,
+    message: `成功: ファイル '${filePath}' の${action}しました。\n=== 編集領域: ${region} / 総 ${result.totalLines} 行 ===\n\n` +
+      formatContextSnippet(result.content, result.start, result.end)
+  };
+}
+
+export async function handleEditFile(
+  filePath: string,
+  edits: EditOperation[],
+  config: Config,
+  options?: WriteOptions
+): Promise<ToolResult> {
+  console.error(`edit_file: ${filePath}`);
+  return modifyFile("edit_file", filePath, config, options, content => {
+    const result = applyEdits(content, edits);
+    if (!result.ok) {
+      return result;
+    }
+    return {
+      ok: true,
+      content: result.content,
+      message: `成功: ファイル '${filePath}' を編集しました（${result.replacements} 箇所を置換）。\n変更行: ${formatLineRanges(result.changedLines)}`
+    };
+  });
+}
+
+export async function handleInsertLines(
+  filePath: string,
+  line: number,
+  text: string,
+  position: "before" | "after",
+  config: Config,
+  options?: WriteOptions
+): Promise<ToolResult> {
+  console.error(`insert_lines: ${filePath}`);
+  if (position !== "before" && position !== "after") {
+    return errorResult("INVALID_ARGUMENT", t("invalidPosition"), { position });
+  }
+  return modifyFile("insert_lines", filePath, config, options, content =>
+    toLineModifyResult(filePath, `行 ${line} の${position === "before" ? "前" : "後"}に挿入`, insertLines(content, line, text, position))
+  );
+}
+
+export async function handleDeleteLines(
+  filePath: string,
+  startLine: number,
+  endLine: number,
+  config: Config,
+  options?: WriteOptions
+): Promise<ToolResult> {
+  console.error(`delete_lines: ${filePath}`);
+  return modifyFile("delete_lines", filePath, config, options, content =>
+    toLineModifyResult(filePath, `行 ${startLine}-${endLine} を削除`, deleteLines(content, startLine, endLine))
+  );
+}
+
+export async function handleReplaceLines(
+  filePath: string,
+  startLine: number,
+  endLine: number,
+  text: string,
+  config: Config,
+  options?: WriteOptions
+): Promise<ToolResult> {
+  console.error(`replace_lines: ${filePath}`);
+  return modifyFile("replace_lines", filePath, config, options, content =>
+    toLineModifyResult(filePath, `行 ${startLine}-${endLine} を置換`, replaceLines(content, startLine, endLine, text))
+  );
+}
+
+/**
+ * 複数ファイルをまとめて変更する際の、ファイルごとの計画
+ */
+interface CommitTarget {
+  resolvedPath: string;
+  /** 変更前の内容（新規作成の場合はnull） */
+  original: Buffer | null;
+  /** 変更後の内容（削除の場合はnull） */
+  updated: Buffer | null;
+}
+
+/**
+ * パッチ適用の対象ファイルごとの計画
+ */
+interface PatchTarget extends CommitTarget {
+  displayPath: string;
+  report: string;
+}
+
+/**
+ * 計画した変更を順番に書き込みます
+ *
+ * 書き込み途中で失敗した場合は、それまでに書き込んだファイルを元の内容に戻してから例外を投げ直します。
+ */
+async function commitAll(targets: CommitTarget[], tool: string, config: Config): Promise<void> {
+  const applied: CommitTarget[] = [];
+  try {
+    for (const target of targets) {
+      if (target.updated === null) {
+        await commitDelete(target.resolvedPath, tool, config);
+      } else {
+        await commitWrite(target.resolvedPath, target.updated, tool, config);
+      }
+      applied.push(target);
+    }
+  } catch (error) {
+    // 戻した書き込みの履歴も取り除く（残すと undo_edit がディスク上の内容と食い違う）
+    for (const target of applied.reverse()) {
+      await commitRestore(target.resolvedPath, target.original).catch(() => undefined);
+      await popVersion(target.resolvedPath, config).catch(() => undefined);
+    }
+    throw error;
+  }
+}
+
+export async function handleApplyPatch(
+  patchText: string,
+  fuzz: number,
+  config: Config,
+  expectedHashes?: Record<string, string>
+): Promise<ToolResult> {
+  try {
+    console.error(`apply_patch`);
+
+    let filePatches: FilePatch[];
+    try {
+      filePatches = parsePatch(patchText);
+    } catch (error) {
+      const failure = operationFailureOf(error);
+      return errorResult("INVALID_ARGUMENT", t("patchParseFailed", { reason: failure.message }), failure.details);
+    }
+
+    // すべての対象を検証・適用計算してから書き込む（1つでも失敗したら何も書き込まない）
+    const targets: PatchTarget[] = [];
+    const failures: string[] = [];
+    let conflicted = false;
+    let duplicated = false;
+    let syntaxFailures = 0;
+    // 一致する箇所が見つからなかったハンクの番号（パッチ内のパス表記ごと）
+    const rejectedHunks: Record<string, number[]> = {};
+    const seenPaths = new Set<string>();
+    for (const filePatch of filePatches) {
+      const displayPath = (filePatch.newPath ?? filePatch.oldPath) as string;
+      if (filePatch.oldPath !== null && filePatch.newPath !== null && filePatch.oldPath !== filePatch.newPath) {
+        failures.push(`${displayPath}: ${t("patchRenameUnsupported", { from: filePatch.oldPath, to: filePatch.newPath })}`);
+        continue;
+      }
+
+      // write_file と同じパス・拡張子・サイズのチェックを行う
+      const resolvedPath = await resolvePath(displayPath, config);
+      if (!resolvedPath) {
+        failures.push(`${displayPath}: ${t("pathDenied", {})}`);
+        continue;
+      }
+      if (!validateFileExtension(resolvedPath, config)) {
+        failures.push(`${displayPath}: ${t("extensionNotAllowed", { extension: path.extname(resolvedPath), allowed: policyFor(resolvedPath, config).allowedExtensions })}`);
+        continue;
+      }
+      if (!isWritable(resolvedPath, config)) {
+        failures.push(`${displayPath}: ${t("readOnly", { path: displayPath })}`);
+        continue;
+      }
+      // 同じファイルのセクションが複数あると、後のセクションが前の結果を上書きしてしまうため拒否する
+      if (seenPaths.has(resolvedPath)) {
+        duplicated = true;
+        failures.push(`${displayPath}: ${t("patchDuplicateTarget")}`);
+        continue;
+      }
+      seenPaths.add(resolvedPath);
+
+      const exists = await fs.access(resolvedPath).then(() => true).catch(() => false);
+      if (filePatch.oldPath === null && exists) {
+        failures.push(`${displayPath}: ${t("patchTargetExists")}`);
+        continue;
+      }
+      if (filePatch.oldPath !== null && !exists) {
+        failures.push(`${displayPath}: ${t("patchTargetMissing")}`);
+        continue;
+      }
+      if (!await checkFileSize(resolvedPath, config)) {
+        failures.push(`${displayPath}: ${t("fileTooLarge", { limit: maxFileSizeFor(resolvedPath, config) })}`);
+        continue;
+      }
+
+      const buffer = exists ? await fs.readFile(resolvedPath) : null;
+      // 楽観的排他制御: パッチ内のパス表記をキーに expected_hash を照合
+      const expectedHash = expectedHashes?.[displayPath];
+      if (expectedHash !== undefined) {
+        const currentHash = buffer ? computeContentHash(buffer) : null;
+        if (currentHash !== expectedHash) {
+          conflicted = true;
+          failures.push(`${displayPath}: ${t("patchConflict", { expected: expectedHash, actual: currentHash })}`);
+          continue;
+        }
+      }
+
+      // 既存ファイルの文字コード・BOM・改行コードを維持して適用する
+      const decoded = buffer ? decodeText(buffer) : { text: "", format: DEFAULT_TEXT_FORMAT };
+      const result = applyHunks(decoded.text, filePatch.hunks, fuzz);
+      const change = filePatch.oldPath === null ? "create" : filePatch.newPath === null ? "delete" : "modify";
+      const report = `${t("patchFile", { path: displayPath, change })}\n${formatHunkResults(result.hunks)}`;
+      if (!result.ok) {
+        rejectedHunks[displayPath] = result.hunks.filter(hunk => !hunk.applied).map(hunk => hunk.index);
+        failures.push(report);
+        continue;
+      }
+      // 削除（+++ /dev/null）は、ハンクの適用で内容がすべて削除される場合だけ行う
+      if (filePatch.newPath === null && result.content !== "") {
+        failures.push(`${report}\n  ${t("patchDeleteNotEmpty")}`);
+        continue;
+      }
+      const encoded = encodeForWrite(result.content, decoded.format, undefined, { path: resolvedPath, previous: buffer });
+      if (!encoded.ok) {
+        failures.push(`${displayPath}: ${encoded.message}`);
+        continue;
+      }
+      if (!validateContentSize(encoded.data, resolvedPath, config)) {
+        failures.push(`${displayPath}: ${t("patchTooLarge", { limit: maxFileSizeFor(resolvedPath, config) })}`);
+        continue;
+      }
+      // 削除するファイルは構文チェックしない
+      const syntax = filePatch.newPath === null
+        ? { ok: true as const, warning: "" }
+        : await checkSyntax(resolvedPath, result.content, config, buffer ? decoded.text : null);
+      if (!syntax.ok) {
+        syntaxFailures++;
+        failures.push(`${displayPath}: ${syntax.message}`);
+        continue;
+      }
+
+      targets.push({
+        displayPath,
+        resolvedPath,
+        original: buffer,
+        updated: filePatch.newPath === null ? null : encoded.data,
+        report: filePatch.newPath === null ? report : `${report}\n  content_hash: ${computeContentHash(encoded.data)}${syntax.warning}`,
+      });
+    }
+
+    if (failures.length > 0) {
+      const code = duplicated ? "INVALID_ARGUMENT"
+        : conflicted ? "CONFLICT"
+        : syntaxFailures === failures.length ? "SYNTAX_ERROR"
+        : Object.keys(rejectedHunks).length === failures.length ? "NOT_FOUND"
+        : "OPERATION_FAILED";
+      const details = Object.keys(rejectedHunks).length > 0 ? { failures, rejected_hunks: rejectedHunks } : { failures };
+      return errorResult(code, `${t("patchRejected")}\n${failures.join('\n')}`, details);
+    }
+
+    await commitAll(targets, "apply_patch", config);
+
     return {
       content: [
         { 
           type: "text", 
-          text: `エラー: ファイルへの追記に失敗しました - ${error instanceof Error ? error.message : '不明なエラー'}` 
+          text: `成功: パッチを適用しました（${targets.length} ファイル）。\n${targets.map(target => target.report).join('\n')}` 
         }
       ]
     };
+  } catch (error) {
+    return failureResult("patch", error);
   }
 }
 
-export async function handleGetFileInfo(filePath: string, config: Config): Promise<ToolResult> {
+/**
+ * batch_edit の操作（replace は edit_file と同じ文字列置換）
+ */
+export type BatchOperation =
+  | ({ op: "write"; path: string; content: string } & WriteOptions)
+  | ({ op: "create"; path: string; content: string } & TextFormatOptions)
+  | ({ op: "append"; path: string; content: string } & WriteOptions)
+  | ({ op: "replace"; path: string; edits: EditOperation[] } & WriteOptions);
+
+/**
+ * バッチ編集の対象ファイルごとの計画（updated は操作を順に適用した途中経過）
+ */
+interface BatchTarget extends CommitTarget {
+  /** 同じファイルに対する先行の操作が失敗した */
+  failed: boolean;
+  /** このファイルに対して最後に成功した操作の結果（reports の位置） */
+  lastReport?: number;
+}
+
+/**
+ * 操作ごとの結果
+ */
+interface BatchReport {
+  index: number;
+  op: BatchOperation["op"];
+  path: string;
+  status: "ok" | "error" | "skipped";
+  code?: ErrorCode;
+  message: string;
+  /** 失敗の詳細情報（置換に失敗した編集の番号など） */
+  details?: Record<string, unknown>;
+}
+
+type BatchStep = { ok: true; data: Buffer; message: string } | { ok: false; code: ErrorCode; message: string; details?: Record<string, unknown> };
+
+/**
+ * 操作対象のファイルを検証し、計画を返します（同じファイルは2回目以降の操作で同じ計画を共有する）
+ */
+async function loadBatchTarget(
+  filePath: string,
+  targets: Map<string, BatchTarget>,
+  config: Config
+): Promise<{ ok: true; target: BatchTarget } | { ok: false; code: ErrorCode; message: string }> {
+  // write_file と同じパス・拡張子・ポリシー・サイズのチェックを行う
+  const resolvedPath = await resolvePath(filePath, config);
+  if (!resolvedPath) {
+    return { ok: false, code: "PATH_DENIED", message: t("pathDenied", {}) };
+  }
+  const planned = targets.get(resolvedPath);
+  if (planned) {
+    return { ok: true, target: planned };
+  }
+  if (!validateFileExtension(resolvedPath, config)) {
+    return {
+      ok: false,
+      code: "EXTENSION_NOT_ALLOWED",
+      message: t("extensionNotAllowed", { extension: path.extname(resolvedPath), allowed: policyFor(resolvedPath, config).allowedExtensions })
+    };
+  }
+  if (!isWritable(resolvedPath, config)) {
+    return { ok: false, code: "READ_ONLY", message: t("readOnly", { path: filePath }) };
+  }
+
+  const exists = await fs.access(resolvedPath).then(() => true).catch(() => false);
+  if (exists && !await checkFileSize(resolvedPath, config)) {
+    return { ok: false, code: "SIZE_LIMIT", message: t("fileTooLarge", { limit: maxFileSizeFor(resolvedPath, config) }) };
+  }
+  const original = exists ? await fs.readFile(resolvedPath) : null;
+  const target: BatchTarget = { resolvedPath, original, updated: original, failed: false };
+  targets.set(resolvedPath, target);
+  return { ok: true, target };
+}
+
+/**
+ * 1つの操作を計画中の内容に適用します（ディスクには書き込まない）
+ */
+function applyBatchOperation(operation: BatchOperation, target: BatchTarget, config: Config): BatchStep {
+  // 楽観的排他制御: expected_hash はバッチ適用前のディスク上の内容と照合する
+  if ("expected_hash" in operation && operation.expected_hash !== undefined) {
+    const currentHash = target.original ? computeContentHash(target.original) : null;
+    if (currentHash !== operation.expected_hash) {
+      return {
+        ok: false,
+        code: "CONFLICT",
+        message: t("conflict", { path: operation.path, expected: operation.expected_hash, actual: currentHash })
+      };
+    }
+  }
+
+  const current = target.updated;
+  let encoded: { ok: true; data: Buffer } | { ok: false; message: string };
+  let sizeMessage: "contentTooLarge" | "appendTooLarge" | "editTooLarge";
+  let message: string;
+  switch (operation.op) {
+    case "write":
+      encoded = encodeForWrite(operation.content, current ? decodeText(current).format : DEFAULT_TEXT_FORMAT, operation, { path: target.resolvedPath });
+      sizeMessage = "contentTooLarge";
+      message = current ? "上書き" : "新規作成";
+      break;
+    case "create":
+      if (current !== null) {
+        return { ok: false, code: "ALREADY_EXISTS", message: t("alreadyExists", { path: operation.path }) };
+      }
+      encoded = encodeForWrite(operation.content, DEFAULT_TEXT_FORMAT, operation);
+      sizeMessage = "contentTooLarge";
+      message = "新規作成";
+      break;
+    case "append":
+      if (current === null) {
+        return { ok: false, code: "NOT_FOUND", message: t("fileNotFound", { path: operation.path }) };
+      }
+      encoded = appendEncoded(target.resolvedPath, current, operation.content, operation);
+      sizeMessage = "appendTooLarge";
+      message = "追記";
+      break;
+    case "replace": {
+      if (current === null) {
+        return { ok: false, code: "NOT_FOUND", message: t("fileNotFound", { path: operation.path }) };
+      }
+      const decoded = decodeText(current);
+      const edited = applyEdits(decoded.text, operation.edits);
+      if (!edited.ok) {
+        return edited;
+      }
+      encoded = encodeForWrite(edited.content, decoded.format, operation, { path: target.resolvedPath, previous: current });
+      sizeMessage = "editTooLarge";
+      message = `${edited.replacements} 箇所を置換（変更行: ${formatLineRanges(edited.changedLines)}）`;
+      break;
+    }
+  }
+
+  if (!encoded.ok) {
+    return { ok: false, code: "INVALID_ARGUMENT", message: encoded.message };
+  }
+  if (!validateContentSize(encoded.data, target.resolvedPath, config)) {
+    return { ok: false, code: "SIZE_LIMIT", message: t(sizeMessage, { limit: maxFileSizeFor(target.resolvedPath, config) }) };
+  }
+  return { ok: true, data: encoded.data, message };
+}
+
+function formatBatchReports(reports: BatchReport[]): string {
+  return reports.map(report => t("batchReport", report)).join('\n');
+}
+
+export async function handleBatchEdit(operations: BatchOperation[], config: Config): Promise<ToolResult> {
   try {
-    console.error(`get_file_info: ${filePath}`);
+    console.error(`batch_edit: ${operations.length} operations`);
+
+    // すべての操作をメモリ上で順に検証・適用してから書き込む（1つでも失敗したら何も書き込まない）
+    const targets = new Map<string, BatchTarget>();
+    const reports: BatchReport[] = [];
+    for (const [index, operation] of operations.entries()) {
+      const report = (status: BatchReport["status"], message: string, code?: ErrorCode, details?: Record<string, unknown>) =>
+        reports.push({ index: index + 1, op: operation.op, path: operation.path, status, message, ...(code ? { code } : {}), ...(details ? { details } : {}) });
+
+      const loaded = await loadBatchTarget(operation.path, targets, config);
+      if (!loaded.ok) {
+        report("error", loaded.message, loaded.code);
+        continue;
+      }
+      // 同じファイルの先行操作が失敗した場合、以降の操作は前提となる内容がないため検証しない
+      if (loaded.target.failed) {
+        report("skipped", t("batchSkipped"));
+        continue;
+      }
+      const step = applyBatchOperation(operation, loaded.target, config);
+      if (!step.ok) {
+        loaded.target.failed = true;
+        report("error", step.message, step.code, step.details);
+        continue;
+      }
+      loaded.target.updated = step.data;
+      loaded.target.lastReport = reports.length;
+      report("ok", step.message);
+    }
+
+    // 構文チェックは各ファイルの最終的な内容に対して行う（途中の操作で一時的に不正になってもよい）
+    const warnings: string[] = [];
+    for (const target of targets.values()) {
+      if (target.failed || target.lastReport === undefined || target.updated === null) continue;
+      const syntax = await checkSyntax(target.resolvedPath, target.updated, config, target.original);
+      if (!syntax.ok) {
+        reports[target.lastReport] = { ...reports[target.lastReport], status: "error", code: "SYNTAX_ERROR", message: syntax.message };
+      } else if (syntax.warning) {
+        warnings.push(`${relativeToRoot(target.resolvedPath, config)}:${syntax.warning}`);
+      }
+    }
+
+    const failed = reports.filter(report => report.status === "error");
+    if (failed.length > 0) {
+      // すべて同じ理由で失敗した場合はそのエラーコード、そうでなければ OPERATION_FAILED
+      const codes = new Set(failed.map(report => report.code));
+      return errorResult(
+        codes.size === 1 ? failed[0].code as ErrorCode : "OPERATION_FAILED",
+        `${t("batchRejected")}\n${formatBatchReports(reports)}`,
+        { operations: reports }
+      );
+    }
+
+    const changed = [...targets.values()];
+    await commitAll(changed, "batch_edit", config);
+    const hashes = changed
+      .map(target => `${relativeToRoot(target.resolvedPath, config)}: ${computeContentHash(target.updated as Buffer)}`)
+      .join('\n');
+    return {
+      content: [
+        {
+          type: "text",
+          text: `成功: ${operations.length} 件の操作を適用しました（${changed.length} ファイル）。\n${formatBatchReports(reports)}\n\ncontent_hash:\n${hashes}`
+            + warnings.map(warning => `\n\n${warning}`).join("")
+        }
+      ]
+    };
+  } catch (error) {
+    return failureResult("batch", error);
+  }
+}
+
+export async function handleListVersions(filePath: string, config: Config): Promise<ToolResult> {
+  try {
+    console.error(`list_versions: ${filePath}`);
     
     // バリデーション
-    // パストラバーサル攻撃防止チェック
-    if (!validatePath(filePath)) {
+    // ワークスペース基準でパスを解決し、許可ルート外へのアクセスを防止
+    const resolvedPath = await resolvePath(filePath, config);
+    if (!resolvedPath) {
+      return pathDeniedResult(filePath);
+    }
+
+    const versions = await listVersions(resolvedPath, config);
+    if (versions.length === 0) {
       return {
         content: [
-          { type: "text", text: "エラー: 無効なファイルパスです。" }
+          { type: "text", text: `ファイル '${filePath}' の保存済みバージョンはありません。` }
         ]
       };
     }
 
-    const stats = await fs.stat(filePath);
-    const info = {
-      ファイルパス: filePath,
-      ファイルサイズ: `${stats.size} bytes`,
-      作成日時: stats.birthtime.toLocaleString('ja-JP'),
-      更新日時: stats.mtime.toLocaleString('ja-JP'),
-      ファイル種別: stats.isFile() ? 'ファイル' : stats.isDirectory() ? 'ディレクトリ' : 'その他',
-      拡張子: path.extname(filePath),
-      許可状態: validateFileExtension(filePath, config) ? '許可' : '非許可'
+    // 新しい順に表示（undo_edit は先頭のバージョンから戻す）
+    const lines = versions
+      .slice()
+      .reverse()
+      .map(version => version.existed
+        ? `バージョン ${version.id}: ${version.timestamp}（${version.tool} の前）${version.size} bytes content_hash: ${version.hash}`
+        : `バージョン ${version.id}: ${version.timestamp}（${version.tool} の前）ファイルなし`
+      );
+    return {
+      content: [
+        { type: "text", text: `=== ファイル: ${filePath} / ${versions.length} バージョン ===\n${lines.join('\n')}` }
+      ]
     };
+  } catch (error) {
+    return failureResult("versions", error, { path: filePath });
+  }
+}
+
+export async function handleUndoEdit(
+  filePath: string,
+  versionId: number | undefined,
+  config: Config,
+  options?: WriteOptions
+): Promise<ToolResult> {
+  try {
+    console.error(`undo_edit: ${filePath}`);
+    
+    // バリデーション
+    // ワークスペース基準でパスを解決し、許可ルート外へのアクセスを防止
+    const resolvedPath = await resolvePath(filePath, config);
+    if (!resolvedPath) {
+      return pathDeniedResult(filePath);
+    }
+    
+    // 許可された拡張子かチェック
+    if (!validateFileExtension(resolvedPath, config)) {
+      return extensionNotAllowedResult(resolvedPath, config);
+    }
+
+    // ポリシーで読み取り専用とされたパスには書き込まない
+    if (!isWritable(resolvedPath, config)) {
+      return readOnlyResult(filePath);
+    }
+
+    // 楽観的排他制御: 読み取り後に他者が変更していないかチェック
+    const currentHash = await readContentHash(resolvedPath);
+    if (options?.expected_hash !== undefined && currentHash !== options.expected_hash) {
+      return conflictResult(filePath, options.expected_hash, currentHash);
+    }
+
+    // 最後に記録した書き込みの後にディスク上で変更されていれば、その変更を失わないよう戻さない
+    const versions = await listVersions(resolvedPath, config);
+    const latest = versions[versions.length - 1];
+    if (latest?.hashAfter !== undefined && currentHash !== latest.hashAfter) {
+      return errorResult(
+        "CONFLICT",
+        t("undoConflict", { path: filePath, tool: latest.tool }),
+        { path: filePath, expected_hash: latest.hashAfter, actual_hash: currentHash }
+      );
+    }
+
+    // 指定バージョン（省略時は直前）を取り出し、それ以降の履歴は破棄する
+    const version = await popVersion(resolvedPath, config, versionId);
+    if (!version) {
+      return errorResult(
+        "NOT_FOUND",
+        versionId === undefined ? t("noHistory", { path: filePath }) : t("versionNotFound", { path: filePath, version: versionId }),
+        { path: filePath, ...(versionId !== undefined ? { version: versionId } : {}) }
+      );
+    }
+
+    await commitRestore(resolvedPath, version.content);
+    if (version.content === null) {
+      // 作成前の状態に戻した（ファイルを削除した）
+      return {
+        content: [
+          { type: "text", text: `成功: ファイル '${filePath}' をバージョン ${version.entry.id}（${version.entry.tool} の前）に戻しました。ファイルは削除されました。` }
+        ]
+      };
+    }
 
     return {
       content: [
         { 
           type: "text", 
-          text: Object.entries(info)
-            .map(([key, value]) => `${key}: ${value}`)
-            .join('\n')
+          text: `成功: ファイル '${filePath}' をバージョン ${version.entry.id}（${version.entry.tool} の前）に戻しました。\ncontent_hash: ${computeContentHash(version.content)}` 
         }
       ]
     };
   } catch (error) {
+    return failureResult("undo", error, { path: filePath });
+  }
+}
+
+export interface ListFilesOptions {
+  pattern?: string;
+  max_depth?: number;
+  respect_gitignore?: boolean;
+  max_results?: number;
+}
+
+export async function handleListFiles(directory: string, config: Config, options?: ListFilesOptions): Promise<ToolResult> {
+  try {
+    console.error(`list_files: ${directory}`);
+    
+    // バリデーション
+    // ワークスペース基準でパスを解決し、許可ルート外へのアクセスを防止
+    const resolvedPath = await resolvePath(directory, config);
+    if (!resolvedPath) {
+      return pathDeniedResult(directory);
+    }
+
+    const stats = await fs.stat(resolvedPath).catch(() => null);
+    if (!stats?.isDirectory()) {
+      return errorResult("NOT_FOUND", t("directoryNotFound", { path: directory }), { path: directory });
+    }
+
+    // 許可された拡張子のファイルのみを列挙
+    const maxResults = options?.max_results ?? 1000;
+    const { files, truncated } = await walkFiles(resolvedPath, {
+      pattern: options?.pattern,
+      maxDepth: options?.max_depth,
+      respectGitignore: options?.respect_gitignore ?? true,
+      maxResults,
+      filter: absolutePath => validateFileExtension(absolutePath, config),
+    });
+
+    const lines = await Promise.all(files.map(async file => {
+      const fileStats = await fs.stat(file.absolutePath);
+      return `${file.relativePath} (${fileStats.size} bytes)`;
+    }));
+    const header = `=== ディレクトリ: ${directory} / ${files.length} ファイル${truncated ? `（上限 ${maxResults} 件で打ち切り）` : ''} ===`;
     return {
       content: [
-        { 
-          type: "text", 
-          text: `エラー: ファイル情報の取得に失敗しました - ${error instanceof Error ? error.message : '不明なエラー'}` 
-        }
+        { type: "text", text: lines.length > 0 ? `${header}\n${lines.join('\n')}` : `${header}\n該当するファイルはありません。` }
+      ]
+    };
+  } catch (error) {
+    return failureResult("list", error, { path: directory });
+  }
+}
+
+/**
+ * 移動・コピー・変換の元と先のパスを検証し、解決済みのパスを返します
+ *
+ * 元・先の両方にパス・拡張子のチェックを行い、元ファイルの存在とサイズ、
+ * 先ファイルの上書き可否と書き込み可否（移動の場合は元ファイルも）を確認します。
+ * expectedHash を指定した場合は、先ファイルの現在の content_hash と一致するかも確認します。
+ * 問題がある場合はエラー結果を返します。
+ */
+export async function resolveTransfer(
+  source: string,
+  destination: string,
+  overwrite: boolean,
+  removeSource: boolean,
+  config: Config,
+  expectedHash?: string
+): Promise<{ ok: true; sourcePath: string; destinationPath: string } | { ok: false; result: ToolResult }> {
+  const error = (result: ToolResult) => ({ ok: false as const, result });
+
+  const sourcePath = await resolvePath(source, config);
+  const destinationPath = await resolvePath(destination, config);
+  if (!sourcePath || !destinationPath) {
+    return error(pathDeniedResult(!sourcePath ? source : destination, true));
+  }
+
+  for (const resolved of [sourcePath, destinationPath]) {
+    if (!validateFileExtension(resolved, config)) {
+      return error(extensionNotAllowedResult(resolved, config));
+    }
+  }
+
+  // ポリシーで読み取り専用とされたパスには書き込まない（移動元は削除されるため移動元も対象）
+  if (!isWritable(destinationPath, config)) {
+    return error(readOnlyResult(destination));
+  }
+  if (removeSource && !isWritable(sourcePath, config)) {
+    return error(readOnlyResult(source));
+  }
+
+  const sourceStats = await fs.stat(sourcePath).catch(() => null);
+  if (!sourceStats?.isFile()) {
+    return error(fileNotFoundResult(source));
+  }
+  if (sourcePath === destinationPath) {
+    return error(errorResult("INVALID_ARGUMENT", t("sameFile"), { source, destination }));
+  }
+  if (!await checkFileSize(sourcePath, config)) {
+    return error(sizeLimitResult(source, "fileTooLarge", maxFileSizeFor(sourcePath, config), sourceStats.size));
+  }
+
+  const destinationExists = await fs.access(destinationPath).then(() => true).catch(() => false);
+  if (destinationExists && !overwrite) {
+    return error(errorResult("ALREADY_EXISTS", t("alreadyExistsUseOverwrite", { path: destination }), { path: destination }));
+  }
+
+  // 楽観的排他制御: 上書きする先ファイルが読み取り後に変更されていないかチェック
+  if (expectedHash !== undefined) {
+    const currentHash = await readContentHash(destinationPath);
+    if (currentHash !== expectedHash) {
+      return error(conflictResult(destination, expectedHash, currentHash));
+    }
+  }
+
+  return { ok: true, sourcePath, destinationPath };
+}
+
+/**
+ * 移動・コピーで形式が変わる場合（例: .txt → .json）に、移動先の形式で構文チェックします
+ */
+async function checkTransferSyntax(sourcePath: string, destinationPath: string, content: Buffer, config: Config): Promise<SyntaxCheck> {
+  if (syntaxFormatOf(sourcePath) === syntaxFormatOf(destinationPath)) {
+    return { ok: true, warning: "" };
+  }
+  return checkSyntax(destinationPath, content, config);
+}
+
+export async function handleMoveFile(
+  source: string,
+  destination: string,
+  overwrite: boolean,
+  config: Config,
+  options?: WriteOptions
+): Promise<ToolResult> {
+  try {
+    console.error(`move_file: ${source} -> ${destination}`);
+
+    const transfer = await resolveTransfer(source, destination, overwrite, true, config, options?.expected_hash);
+    if (!transfer.ok) {
+      return transfer.result;
+    }
+
+    const content = await fs.readFile(transfer.sourcePath);
+    // ポリシーで移動先のサイズ制限が小さい場合もあるため、移動先の制限でもチェックする
+    if (!validateContentSize(content, transfer.destinationPath, config)) {
+      return sizeLimitResult(destination, "contentTooLarge", maxFileSizeFor(transfer.destinationPath, config), content.length);
+    }
+    const syntax = await checkTransferSyntax(transfer.sourcePath, transfer.destinationPath, content, config);
+    if (!syntax.ok) {
+      return syntaxErrorResult(destination, syntax);
+    }
+    // 移動元・移動先それぞれの履歴を残すため、コピーしてから元を削除する
+    // （元を削除できなかった場合は移動先を元に戻し、両方に残さない）
+    const previous = await fs.readFile(transfer.destinationPath).catch(() => null);
+    await commitAll([
+      { resolvedPath: transfer.destinationPath, original: previous, updated: content },
+      { resolvedPath: transfer.sourcePath, original: content, updated: null },
+    ], "move_file", config);
+    return {
+      content: [
+        { type: "text", text: `成功: ファイル '${source}' を '${destination}' に移動しました。${syntax.warning}` }
+      ]
+    };
+  } catch (error) {
+    return failureResult("move", error, { source, destination });
+  }
+}
+
+export async function handleCopyFile(
+  source: string,
+  destination: string,
+  overwrite: boolean,
+  config: Config,
+  options?: WriteOptions
+): Promise<ToolResult> {
+  try {
+    console.error(`copy_file: ${source} -> ${destination}`);
+
+    const transfer = await resolveTransfer(source, destination, overwrite, false, config, options?.expected_hash);
+    if (!transfer.ok) {
+      return transfer.result;
+    }
+
+    const content = await fs.readFile(transfer.sourcePath);
+    // ポリシーでコピー先のサイズ制限が小さい場合もあるため、コピー先の制限でもチェックする
+    if (!validateContentSize(content, transfer.destinationPath, config)) {
+      return sizeLimitResult(destination, "contentTooLarge", maxFileSizeFor(transfer.destinationPath, config), content.length);
+    }
+    const syntax = await checkTransferSyntax(transfer.sourcePath, transfer.destinationPath, content, config);
+    if (!syntax.ok) {
+      return syntaxErrorResult(destination, syntax);
+    }
+    await commitWrite(transfer.destinationPath, content, "copy_file", config);
+    return {
+      content: [
+        { type: "text", text: `成功: ファイル '${source}' を '${destination}' にコピーしました。${syntax.warning}` }
       ]
     };
+  } catch (error) {
+    return failureResult("copy", error, { source, destination });
   }
-}
\ No newline at end of file
+}
+
+export async function handleDeleteFile(filePath: string, config: Config, options?: WriteOptions): Promise<ToolResult> {
+  try {
+    console.error(`delete_file: ${filePath}`);
+    
+    // バリデーション
+    // ワークスペース基準でパスを解決し、許可ルート外へのアクセスを防止
+    const resolvedPath = await resolvePath(filePath, config);
+    if (!resolvedPath) {
+      return pathDeniedResult(filePath);
+    }
+    
+    // 許可された拡張子かチェック
+    if (!validateFileExtension(resolvedPath, config)) {
+      return extensionNotAllowedResult(resolvedPath, config);
+    }
+
+    // ポリシーで読み取り専用とされたパスには書き込まない
+    if (!isWritable(resolvedPath, config)) {
+      return readOnlyResult(filePath);
+    }
+
+    // 削除対象ファイルの存在チェック（ディレクトリは対象外）
+    const stats = await fs.stat(resolvedPath).catch(() => null);
+    if (!stats?.isFile()) {
+      return fileNotFoundResult(filePath);
+    }
+
+    // 楽観的排他制御: 読み取り後に他者が変更していないかチェック
+    if (options?.expected_hash !== undefined) {
+      const currentHash = await readContentHash(resolvedPath);
+      if (currentHash !== options.expected_hash) {
+        return conflictResult(filePath, options.expected_hash, currentHash);
+      }
+    }
+
+    // 履歴に保存してから削除（undo_edit で復元可能）
+    await commitDelete(resolvedPath, "delete_file", config);
+    return {
+      content: [
+        { type: "text", text: `成功: ファイル '${filePath}' を削除しました（undo_edit で復元できます）。` }
+      ]
+    };
+  } catch (error) {
+    return failureResult("delete", error, { path: filePath });
+  }
+}
@@ -0,0 +1,349 @@
+/**
+ * @fileoverview アトミック書き込みとファイルのバージョン履歴管理
+ * - 一時ファイルへ書き込んでからリネームすることで、書き込み途中のクラッシュでファイルが壊れるのを防ぐ
+ * - 書き込み前の内容をファイルごとに上限付きで保存し、undo_edit / list_versions から参照する
+ * - 保存先は BACKUP_DIR が設定されていればディスク、未設定ならメモリ（メモリではファイル数と合計バイト数にも上限を設ける）
+ * - ドライラン中は書き込み・削除・履歴の変更を行わず、予定された変更を収集するだけにする
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { randomBytes } from "crypto";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { Config } from "./config.js";
+import { computeContentHash } from "./validation.js";
+import { recordChange } from "./audit.js";
+
+/**
+ * 保存されたバージョンのメタデータ
+ */
+export interface VersionEntry {
+  /** バージョンID（ファイル内で一意、古い順に増加） */
+  id: number;
+  /** 保存日時（ISO 8601） */
+  timestamp: string;
+  /** このバージョンを保存するきっかけになったツール名 */
+  tool: string;
+  /** 書き込み前にファイルが存在したか（falseの場合、復元はファイル削除を意味する） */
+  existed: boolean;
+  size: number;
+  /** 保存した内容の content_hash（存在しなかった場合はnull） */
+  hash: string | null;
+  /** このバージョンを保存した書き込みの後の content_hash（削除した場合はnull。記録されていない古い履歴では省略） */
+  hashAfter?: string | null;
+}
+
+interface StoredVersion extends VersionEntry {
+  content: Buffer | null;
+}
+
+/**
+ * ドライラン中に書き込む代わりに収集した変更
+ */
+export interface PendingChange {
+  /** 解決済みの絶対パス */
+  path: string;
+  /** 変更前の内容（存在しなかった場合はnull） */
+  before: Buffer | null;
+  /** 変更後の内容（削除の場合はnull） */
+  after: Buffer | null;
+}
+
+/** メモリ上に履歴を保持するファイル数の上限（超えた場合は最も長く変更されていないファイルの履歴から破棄） */
+const MAX_MEMORY_HISTORY_FILES = 500;
+
+/** メモリ上に保持する履歴の内容の合計バイト数の上限（超えた場合は最も長く変更されていないファイルの古いバージョンから破棄） */
+const MAX_MEMORY_HISTORY_BYTES = 256 * 1024 * 1024;
+
+// BACKUP_DIR 未設定時のメモリ上の履歴（キーは解決済みパス。Map の挿入順を変更の新しさの順として使う）
+const memoryHistory = new Map<string, StoredVersion[]>();
+
+// メモリ上の履歴が保持している内容の合計バイト数
+let memoryHistoryBytes = 0;
+
+function storedBytes(versions: StoredVersion[]): number {
+  return versions.reduce((total, version) => total + (version.content?.length ?? 0), 0);
+}
+
+/**
+ * メモリ上の履歴を更新し、最も新しく変更されたファイルとして扱います
+ *
+ * ファイル数またはバイト数の上限を超えた場合は、最も長く変更されていないファイルの古いバージョンから破棄します。
+ * 更新したファイルの最新バージョンだけは、上限を超えていても残します。
+ */
+function setMemoryHistory(filePath: string, versions: StoredVersion[]): void {
+  memoryHistoryBytes -= storedBytes(memoryHistory.get(filePath) ?? []);
+  memoryHistory.delete(filePath);
+  if (versions.length === 0) {
+    return;
+  }
+  memoryHistory.set(filePath, versions);
+  memoryHistoryBytes += storedBytes(versions);
+
+  for (const [oldest, oldestVersions] of memoryHistory) {
+    if (memoryHistory.size <= MAX_MEMORY_HISTORY_FILES && memoryHistoryBytes <= MAX_MEMORY_HISTORY_BYTES) {
+      break;
+    }
+    if (memoryHistory.size > MAX_MEMORY_HISTORY_FILES) {
+      memoryHistoryBytes -= storedBytes(oldestVersions);
+      memoryHistory.delete(oldest);
+      continue;
+    }
+    const keep = oldest === filePath ? 1 : 0;
+    while (oldestVersions.length > keep && memoryHistoryBytes > MAX_MEMORY_HISTORY_BYTES) {
+      memoryHistoryBytes -= oldestVersions.shift()?.content?.length ?? 0;
+    }
+    if (oldestVersions.length === 0) {
+      memoryHistory.delete(oldest);
+    }
+  }
+}
+
+// 実行中のドライランごとの変更一覧（並行する呼び出しを区別するため AsyncLocalStorage で保持）
+const dryRunStorage = new AsyncLocalStorage<PendingChange[]>();
+
+/**
+ * ディスクを変更せずに関数を実行し、書き込まれるはずだった変更を返します
+ *
+ * 関数内の commitWrite / commitDelete / commitRestore は変更を収集するだけになり、履歴も変更されません。
+ */
+export async function collectDryRun<T>(run: () => Promise<T>): Promise<{ result: T; changes: PendingChange[] }> {
+  const changes: PendingChange[] = [];
+  const result = await dryRunStorage.run(changes, run);
+  return { result, changes };
+}
+
+/**
+ * ドライランの変更として収集します（ドライラン中でなければfalse）
+ *
+ * 同じファイルを複数回変更した場合は、最初の変更前の内容と最後の変更後の内容を1件にまとめます。
+ */
+function collectPending(filePath: string, before: Buffer | null, after: string | Buffer | null): boolean {
+  const pending = dryRunStorage.getStore();
+  if (!pending) {
+    return false;
+  }
+  const content = after === null ? null : Buffer.isBuffer(after) ? after : Buffer.from(after);
+  const existing = pending.find(change => change.path === filePath);
+  if (existing) {
+    existing.after = content;
+  } else {
+    pending.push({ path: filePath, before, after: content });
+  }
+  return true;
+}
+
+/**
+ * 一時ファイルに書き込んでからリネームすることでアトミックに書き込みます
+ *
+ * 既存ファイルのパーミッションは引き継ぎます。
+ *
+ * @param filePath - 書き込み先の（解決済み）パス
+ * @param data - 書き込む内容
+ */
+export async function writeFileAtomic(filePath: string, data: string | Buffer): Promise<void> {
+  const dir = path.dirname(filePath);
+  const tempPath = path.join(dir, `.${path.basename(filePath)}.${process.pid}.${randomBytes(6).toString("hex")}.tmp`);
+  const mode = await fs.stat(filePath).then(stats => stats.mode).catch(() => undefined);
+
+  try {
+    await fs.writeFile(tempPath, data, { mode });
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.unlink(tempPath).catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * バックアップディレクトリ内で対象ファイルの履歴を保存するディレクトリ
+ */
+function historyDir(backupDir: string, filePath: string): string {
+  return path.join(backupDir, computeContentHash(filePath).slice(0, 16));
+}
+
+async function readIndex(dir: string): Promise<VersionEntry[]> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(dir, "index.json"), "utf-8")).versions as VersionEntry[];
+  } catch {
+    return [];
+  }
+}
+
+async function writeIndex(dir: string, filePath: string, versions: VersionEntry[]): Promise<void> {
+  await writeFileAtomic(path.join(dir, "index.json"), JSON.stringify({ path: filePath, versions }, null, 2));
+}
+
+/**
+ * 書き込み前の内容を履歴に保存します（上限を超えた古いバージョンは破棄）
+ *
+ * @param filePath - 対象ファイルの（解決済み）パス
+ * @param content - 書き込み前の内容（ファイルが存在しなかった場合はnull）
+ * @param written - これから書き込む内容（削除する場合はnull）
+ * @param tool - 書き込みを行うツール名
+ * @param config - 設定オブジェクト（保存先と保存数上限を含む）
+ */
+export async function saveVersion(
+  filePath: string,
+  content: Buffer | null,
+  written: string | Buffer | null,
+  tool: string,
+  config: Config
+): Promise<void> {
+  if (config.maxVersions <= 0) {
+    return;
+  }
+
+  const entry = (id: number): VersionEntry => ({
+    id,
+    timestamp: new Date().toISOString(),
+    tool,
+    existed: content !== null,
+    size: content?.length ?? 0,
+    hash: content === null ? null : computeContentHash(content),
+    hashAfter: written === null ? null : computeContentHash(written),
+  });
+
+  if (!config.backupDir) {
+    const versions = memoryHistory.get(filePath) ?? [];
+    const saved = [...versions, { ...entry((versions[versions.length - 1]?.id ?? 0) + 1), content }];
+    setMemoryHistory(filePath, saved.slice(-config.maxVersions));
+    return;
+  }
+
+  const dir = historyDir(config.backupDir, filePath);
+  await fs.mkdir(dir, { recursive: true });
+  const versions = await readIndex(dir);
+  const version = entry((versions[versions.length - 1]?.id ?? 0) + 1);
+  if (content !== null) {
+    await writeFileAtomic(path.join(dir, `${version.id}.bak`), content);
+  }
+  versions.push(version);
+
+  const removed = versions.splice(0, Math.max(0, versions.length - config.maxVersions));
+  await writeIndex(dir, filePath, versions);
+  for (const old of removed) {
+    await fs.unlink(path.join(dir, `${old.id}.bak`)).catch(() => undefined);
+  }
+}
+
+/**
+ * 対象ファイルの保存済みバージョン一覧を古い順に返します
+ */
+export async function listVersions(filePath: string, config: Config): Promise<VersionEntry[]> {
+  if (!config.backupDir) {
+    return (memoryHistory.get(filePath) ?? []).map(({ content: _content, ...entry }) => entry);
+  }
+  return readIndex(historyDir(config.backupDir, filePath));
+}
+
+/**
+ * 指定バージョン（省略時は最新）の内容を取り出し、そのバージョン以降を履歴から取り除きます（ドライラン中は取り除かない）
+ *
+ * @returns 取り出したバージョンと内容。該当バージョンがない場合はnull
+ */
+export async function popVersion(
+  filePath: string,
+  config: Config,
+  versionId?: number
+): Promise<{ entry: VersionEntry; content: Buffer | null } | null> {
+  // ドライラン中は履歴を変更せずに内容だけを返す
+  const dryRun = dryRunStorage.getStore() !== undefined;
+
+  if (!config.backupDir) {
+    const versions = memoryHistory.get(filePath) ?? [];
+    const index = versionId === undefined ? versions.length - 1 : versions.findIndex(version => version.id === versionId);
+    if (index < 0) {
+      return null;
+    }
+    const { content, ...entry } = versions[index];
+    if (!dryRun) {
+      setMemoryHistory(filePath, versions.slice(0, index));
+    }
+    return { entry, content };
+  }
+
+  const dir = historyDir(config.backupDir, filePath);
+  const versions = await readIndex(dir);
+  const index = versionId === undefined ? versions.length - 1 : versions.findIndex(version => version.id === versionId);
+  if (index < 0) {
+    return null;
+  }
+  const entry = versions[index];
+  const content = entry.existed ? await fs.readFile(path.join(dir, `${entry.id}.bak`)) : null;
+  if (dryRun) {
+    return { entry, content };
+  }
+  const removed = versions.splice(index);
+  await writeIndex(dir, filePath, versions);
+  for (const old of removed) {
+    await fs.unlink(path.join(dir, `${old.id}.bak`)).catch(() => undefined);
+  }
+  return { entry, content };
+}
+
+/**
+ * 現在の内容を履歴に保存してから、新しい内容をアトミックに書き込みます
+ *
+ * 書き込み系ツールはすべてこの関数を経由してディスクに書き込みます（変更は監査ログにも記録される）。
+ *
+ * @param filePath - 書き込み先の（解決済み）パス
+ * @param content - 書き込む内容
+ * @param tool - 書き込みを行うツール名（履歴に記録）
+ * @param config - 設定オブジェクト
+ */
+export async function commitWrite(filePath: string, content: string | Buffer, tool: string, config: Config): Promise<void> {
+  const previous = await fs.readFile(filePath).catch(() => null);
+  if (collectPending(filePath, previous, content)) {
+    return;
+  }
+  await saveVersion(filePath, previous, content, tool, config);
+  try {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await writeFileAtomic(filePath, content);
+  } catch (error) {
+    // 書き込めなかった変更の履歴は残さない
+    await popVersion(filePath, config).catch(() => undefined);
+    throw error;
+  }
+  recordChange(filePath, previous, content);
+}
+
+/**
+ * 現在の内容を履歴に保存してから、ファイルを削除します
+ */
+export async function commitDelete(filePath: string, tool: string, config: Config): Promise<void> {
+  const previous = await fs.readFile(filePath);
+  if (collectPending(filePath, previous, null)) {
+    return;
+  }
+  await saveVersion(filePath, previous, null, tool, config);
+  try {
+    await fs.unlink(filePath);
+  } catch (error) {
+    // 削除できなかった変更の履歴は残さない
+    await popVersion(filePath, config).catch(() => undefined);
+    throw error;
+  }
+  recordChange(filePath, previous, null);
+}
+
+/**
+ * 履歴から取り出した内容でファイルを復元します（履歴には保存しない）
+ *
+ * @param filePath - 復元するファイルの（解決済み）パス
+ * @param content - 復元する内容（nullの場合はファイルを削除して作成前の状態に戻す）
+ */
+export async function commitRestore(filePath: string, content: Buffer | null): Promise<void> {
+  const previous = await fs.readFile(filePath).catch(() => null);
+  if (collectPending(filePath, previous, content)) {
+    return;
+  }
+  if (content === null) {
+    await fs.unlink(filePath).catch(() => undefined);
+  } else {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await writeFileAtomic(filePath, content);
+  }
+  recordChange(filePath, previous, content);
+}
@@ -0,0 +1,138 @@
+/**
+ * @fileoverview HTTP/SSE での MCP の提供
+ * - GET /sse で SSE ストリームを開くとセッションを作成し、以降の要求は POST /messages?sessionId=... で受け取る
+ * - セッションごとに MCP サーバーを作成する（クライアント情報・リソース購読はセッションごと）
+ * - Bearer トークンが設定されている場合は、すべての要求で Authorization ヘッダーを検証する
+ * - セッション内の処理で出力するログには先頭にセッションIDを付ける
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { timingSafeEqual } from "crypto";
+import * as http from "http";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { Config } from "./config.js";
+import { t } from "./messages.js";
+import { createServer } from "./server.js";
+
+/** SSE ストリームを開くパス */
+const SSE_PATH = "/sse";
+
+/** クライアントがメッセージを送るパス */
+const MESSAGES_PATH = "/messages";
+
+// 実行中の処理が属するセッションID（ログの先頭に付ける）
+const sessionStorage = new AsyncLocalStorage<string>();
+
+/**
+ * ログ（console.error）の先頭に実行中のセッションIDを付けます
+ *
+ * ツールやリソースの処理は各モジュールで console.error に直接ログを出すため、出力側でまとめて付与する。
+ */
+function prefixLogsWithSession(): void {
+  const error = console.error.bind(console);
+  console.error = (...args: unknown[]) => {
+    const sessionId = sessionStorage.getStore();
+    if (sessionId) {
+      error(`[${sessionId}]`, ...args);
+    } else {
+      error(...args);
+    }
+  };
+}
+
+/**
+ * Authorization ヘッダーの Bearer トークンを検証します（トークン未設定の場合は常に許可）
+ */
+function isAuthorized(req: http.IncomingMessage, config: Config): boolean {
+  if (!config.authToken) {
+    return true;
+  }
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? "");
+  if (!match) {
+    return false;
+  }
+  // 比較にかかる時間からトークンを推測されないよう、長さを揃えて定数時間で比較する
+  const expected = Buffer.from(config.authToken);
+  const actual = Buffer.from(match[1].trim());
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function sendText(res: http.ServerResponse, status: number, text: string, headers: http.OutgoingHttpHeaders = {}): void {
+  res.writeHead(status, { "Content-Type": "text/plain; charset=utf-8", ...headers }).end(text);
+}
+
+/**
+ * HTTP/SSE サーバーを起動します
+ *
+ * @param config - 設定オブジェクト（待ち受けるホスト・ポートと Bearer トークンを含む）
+ * @returns 待ち受けを開始した HTTP サーバー
+ */
+export async function startHttpServer(config: Config): Promise<http.Server> {
+  prefixLogsWithSession();
+
+  // セッションIDごとの接続中のトランスポート
+  const sessions = new Map<string, SSEServerTransport>();
+
+  const httpServer = http.createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url ?? "/", "http://localhost");
+
+      if (!isAuthorized(req, config)) {
+        sendText(res, 401, t("httpUnauthorized"), { "WWW-Authenticate": "Bearer" });
+        return;
+      }
+
+      if (url.pathname === SSE_PATH && req.method === "GET") {
+        // セッションごとにサーバーを作成する（接続時に SSE の応答ヘッダーと POST 先を送る）
+        const transport = new SSEServerTransport(MESSAGES_PATH, res);
+        const sessionId = transport.sessionId;
+        sessions.set(sessionId, transport);
+        res.on("close", () => {
+          sessions.delete(sessionId);
+          sessionStorage.run(sessionId, () => console.error(`セッション終了（接続中: ${sessions.size}）`));
+        });
+        await sessionStorage.run(sessionId, async () => {
+          console.error(`セッション開始: ${req.socket.remoteAddress}（接続中: ${sessions.size}）`);
+          await createServer(config).connect(transport);
+        });
+        return;
+      }
+
+      if (url.pathname === MESSAGES_PATH && req.method === "POST") {
+        const sessionId = url.searchParams.get("sessionId") ?? "";
+        const transport = sessions.get(sessionId);
+        if (!transport) {
+          sendText(res, 404, t("httpSessionNotFound", { sessionId }));
+          return;
+        }
+        // 要求の処理中のログにセッションIDを付ける
+        await sessionStorage.run(sessionId, () => transport.handlePostMessage(req, res));
+        return;
+      }
+
+      sendText(res, 404, t("httpNotFound", { path: url.pathname }));
+    } catch (error) {
+      // 詳細（スタックトレースや内部のパス）は標準エラー出力にだけ記録し、クライアントには返さない
+      console.error("HTTP 要求の処理に失敗しました:", error);
+      if (!res.headersSent) {
+        sendText(res, 500, t("httpInternalError"));
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(config.httpPort, config.httpHost, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address();
+  const listening = typeof address === "object" && address ? `${address.address}:${address.port}` : `${config.httpHost}:${config.httpPort}`;
+  console.error(`mcp-file-editor running on http://${listening}${SSE_PATH}`);
+  if (!config.authToken) {
+    console.error("警告: MCP_AUTH_TOKEN が設定されていないため、接続できるクライアントは認証なしでファイルを操作できます。");
+  }
+  return httpServer;
+}
@@ -0,0 +1,312 @@
+/**
+ * @fileoverview ログファイルの末尾読み取りと差分追跡
+ * ファイル全体を読み込まずに末尾から必要な分だけ読み取り、inode とバイトオフセットからなるカーソルで
+ * 前回以降に追記された行だけを返します。ローテーション（inode の変化）と切り詰めも検出します。
+ * 一般的なログ形式からログレベルとタイムスタンプを抽出して絞り込みます。
+ */
+
+import * as fs from "fs/promises";
+import { Config } from "./config.js";
+import { ToolResult } from "./handlers.js";
+import { errorResult, failureResult, pathDeniedResult, extensionNotAllowedResult } from "./errors.js";
+import { t } from "./messages.js";
+import { resolvePath, validateFileExtension, maxFileSizeFor } from "./validation.js";
+
+/**
+ * ログレベルの重要度（数値が大きいほど重要）
+ */
+const LEVEL_SEVERITY: Record<string, number> = {
+  trace: 10,
+  debug: 20,
+  info: 30,
+  notice: 30,
+  warn: 40,
+  warning: 40,
+  error: 50,
+  err: 50,
+  fatal: 60,
+  critical: 60,
+  crit: 60,
+};
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+export interface TailOptions {
+  /** 返す最大行数 */
+  lines?: number;
+  /** 前回の呼び出しで返されたカーソル（指定時はそれ以降の追記分だけを返す） */
+  cursor?: string;
+  /** この重要度以上の行だけを返す（例: "warn"） */
+  level?: string;
+  /** この日時以降の行だけを返す（ISO 8601 または "15m" / "2h" / "1d" のような相対指定） */
+  since?: string;
+  /** この日時以前の行だけを返す */
+  until?: string;
+}
+
+/**
+ * 読み取り位置を表すカーソル
+ */
+interface LogCursor {
+  ino: number;
+  offset: number;
+}
+
+function encodeCursor(cursor: LogCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(value: string): LogCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, "base64url").toString("utf-8"));
+    return typeof cursor?.ino === "number" && Number.isInteger(cursor?.offset) && cursor.offset >= 0 ? cursor : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 行からログレベルを抽出します（JSON形式の level / pino の数値レベル / テキストのレベル表記）
+ */
+export function extractLevel(line: string): number | null {
+  if (line.trimStart().startsWith("{")) {
+    try {
+      const record = JSON.parse(line);
+      const level = record.level ?? record.severity ?? record.lvl;
+      if (typeof level === "number") return level;
+      if (typeof level === "string" && LEVEL_SEVERITY[level.toLowerCase()] !== undefined) return LEVEL_SEVERITY[level.toLowerCase()];
+    } catch {
+      // JSONでなければテキストとして扱う
+    }
+  }
+  const match = /\b(TRACE|DEBUG|INFO|NOTICE|WARN(?:ING)?|ERR(?:OR)?|FATAL|CRIT(?:ICAL)?)\b/i.exec(line);
+  return match ? LEVEL_SEVERITY[match[1].toLowerCase()] : null;
+}
+
+/**
+ * 行からタイムスタンプを抽出します
+ *
+ * 対応形式: ISO 8601（"2024-01-02T03:04:05Z" / "2024-01-02 03:04:05"）、JSON の time / timestamp、
+ * Apache 形式（"[10/Oct/2000:13:55:36 -0700]"）、syslog 形式（"Jan  2 03:04:05"、年は現在の年とみなす）
+ */
+export function extractTimestamp(line: string): number | null {
+  if (line.trimStart().startsWith("{")) {
+    try {
+      const record = JSON.parse(line);
+      const value = record.time ?? record.timestamp ?? record["@timestamp"] ?? record.ts;
+      if (typeof value === "number") return value < 1e12 ? value * 1000 : value;
+      if (typeof value === "string" && !isNaN(Date.parse(value))) return Date.parse(value);
+    } catch {
+      // JSONでなければテキストとして扱う
+    }
+  }
+
+  const iso = /(\d{4}-\d{2}-\d{2})[T ](\d{2}:\d{2}:\d{2}(?:[.,]\d+)?)(Z|[+-]\d{2}:?\d{2})?/.exec(line);
+  if (iso) {
+    const zone = iso[3] ? iso[3].replace(/^([+-]\d{2})(\d{2})$/, "$1:$2") : "";
+    const parsed = Date.parse(`${iso[1]}T${iso[2].replace(",", ".")}${zone}`);
+    if (!isNaN(parsed)) return parsed;
+  }
+
+  const apache = /\[(\d{2})\/(\w{3})\/(\d{4}):(\d{2}:\d{2}:\d{2}) ([+-]\d{2})(\d{2})\]/.exec(line);
+  if (apache) {
+    const month = MONTHS.indexOf(apache[2].toLowerCase()) + 1;
+    if (month > 0) {
+      return Date.parse(`${apache[3]}-${String(month).padStart(2, "0")}-${apache[1]}T${apache[4]}${apache[5]}:${apache[6]}`);
+    }
+  }
+
+  const syslog = /^(\w{3}) +(\d{1,2}) (\d{2}:\d{2}:\d{2})/.exec(line);
+  if (syslog) {
+    const month = MONTHS.indexOf(syslog[1].toLowerCase());
+    if (month >= 0) {
+      const [hours, minutes, seconds] = syslog[3].split(":").map(Number);
+      return new Date(new Date().getFullYear(), month, Number(syslog[2]), hours, minutes, seconds).getTime();
+    }
+  }
+  return null;
+}
+
+/**
+ * since / until の指定を時刻（ミリ秒）に変換します
+ */
+export function parseTimeBound(value: string): number | null {
+  const relative = /^(\d+)\s*([smhd])$/.exec(value.trim());
+  if (relative) {
+    const unit = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 }[relative[2] as "s" | "m" | "h" | "d"];
+    return Date.now() - Number(relative[1]) * unit;
+  }
+  const parsed = Date.parse(value);
+  return isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * 行の絞り込み関数を作成します
+ *
+ * スタックトレースのようにレベルやタイムスタンプを持たない継続行は、直前の行の値を引き継ぐため、
+ * 返される関数はファイル内の順番どおりに1行ずつ呼び出す必要があります。
+ */
+function createLineMatcher(minLevel: number | null, since: number | null, until: number | null): (line: string) => boolean {
+  let level: number | null = null;
+  let timestamp: number | null = null;
+  return line => {
+    if (minLevel === null && since === null && until === null) {
+      return true;
+    }
+    level = extractLevel(line) ?? level;
+    timestamp = extractTimestamp(line) ?? timestamp;
+    if (minLevel !== null && (level === null || level < minLevel)) return false;
+    if (since !== null && (timestamp === null || timestamp < since)) return false;
+    if (until !== null && (timestamp === null || timestamp > until)) return false;
+    return true;
+  };
+}
+
+/**
+ * ファイル末尾から、絞り込み後に count 行が得られるまで（または maxBytes に達するまで）後ろ向きに読み取ります
+ *
+ * @returns 末尾の行と、最後の不完全な行（改行で終わっていない行）のバイト数
+ */
+async function readTail(
+  handle: fs.FileHandle,
+  size: number,
+  count: number,
+  maxBytes: number,
+  createMatcher: () => (line: string) => boolean
+): Promise<{ lines: string[]; partialBytes: number }> {
+  let position = size;
+  let buffer = Buffer.alloc(0);
+  let chunkSize = 64 * 1024;
+  let lines: string[] = [];
+
+  while (position > 0 && buffer.length < maxBytes) {
+    const length = Math.min(chunkSize, position, maxBytes - buffer.length);
+    position -= length;
+    const chunk = Buffer.alloc(length);
+    await handle.read(chunk, 0, length, position);
+    buffer = Buffer.concat([chunk, buffer]);
+    chunkSize *= 2;
+
+    const all = buffer.toString("utf-8").split("\n").map(line => line.replace(/\r$/, ""));
+    if (all[all.length - 1] === "") all.pop();
+    // 読み取り開始位置が行の途中の場合、先頭の断片は捨てる
+    const complete = position === 0 ? all : all.slice(1);
+    lines = complete.filter(createMatcher());
+    if (lines.length >= count) break;
+  }
+
+  const lastNewline = buffer.lastIndexOf(0x0a);
+  const partialBytes = lastNewline === -1 ? (position === 0 ? buffer.length : 0) : buffer.length - lastNewline - 1;
+  return { lines: lines.slice(-count), partialBytes };
+}
+
+export async function handleTailFile(filePath: string, config: Config, options?: TailOptions): Promise<ToolResult> {
+  let handle: fs.FileHandle | undefined;
+  try {
+    console.error(`tail_file: ${filePath}`);
+
+    // バリデーション
+    // ワークスペース基準でパスを解決し、許可ルート外へのアクセスを防止
+    const resolvedPath = await resolvePath(filePath, config);
+    if (!resolvedPath) {
+      return pathDeniedResult(filePath);
+    }
+
+    // 許可された拡張子かチェック
+    if (!validateFileExtension(resolvedPath, config)) {
+      return extensionNotAllowedResult(resolvedPath, config);
+    }
+
+    // 絞り込み条件の検証
+    const minLevel = options?.level ? LEVEL_SEVERITY[options.level.toLowerCase()] ?? null : null;
+    if (options?.level && minLevel === null) {
+      return errorResult("INVALID_ARGUMENT", t("unknownLogLevel", { level: options.level }), { level: options.level });
+    }
+    const since = options?.since ? parseTimeBound(options.since) : null;
+    const until = options?.until ? parseTimeBound(options.until) : null;
+    if ((options?.since && since === null) || (options?.until && until === null)) {
+      return errorResult("INVALID_ARGUMENT", t("invalidTimeRange"), { since: options?.since, until: options?.until });
+    }
+    const createMatcher = () => createLineMatcher(minLevel, since, until);
+    const count = Math.max(1, options?.lines ?? 50);
+
+    let cursor: LogCursor | null = null;
+    if (options?.cursor) {
+      cursor = decodeCursor(options.cursor);
+      if (!cursor) {
+        return errorResult("INVALID_ARGUMENT", t("invalidCursor"), { cursor: options.cursor });
+      }
+    }
+
+    handle = await fs.open(resolvedPath, "r");
+    const stats = await handle.stat();
+    const filters = [
+      options?.level ? `level>=${options.level}` : null,
+      options?.since ? `since ${options.since}` : null,
+      options?.until ? `until ${options.until}` : null,
+    ].filter(Boolean).join(', ');
+    const filterLabel = filters ? `（フィルタ: ${filters}）` : "";
+
+    if (!cursor) {
+      // 末尾 N 行（読み取り量は最大ファイルサイズまで）
+      const tail = await readTail(handle, stats.size, count, maxFileSizeFor(resolvedPath, config), createMatcher);
+      const nextCursor = encodeCursor({ ino: stats.ino, offset: stats.size - tail.partialBytes });
+      const header = `=== ファイル: ${filePath} / 末尾 ${tail.lines.length} 行${filterLabel} / ${stats.size} bytes ===\n\n`;
+      return {
+        content: [
+          { type: "text", text: header + tail.lines.join('\n') },
+          { type: "text", text: `cursor: ${nextCursor}` }
+        ]
+      };
+    }
+
+    // カーソル以降の追記分を読む。inode が変わった場合はローテーション、サイズが減った場合は切り詰めとみなし先頭から読み直す
+    let notice = "";
+    let offset = cursor.offset;
+    if (stats.ino !== cursor.ino) {
+      notice = "（ローテーションを検出したため新しいファイルの先頭から読み取りました）";
+      offset = 0;
+    } else if (stats.size < cursor.offset) {
+      notice = "（ファイルの切り詰めを検出したため先頭から読み取りました）";
+      offset = 0;
+    }
+
+    const length = Math.min(stats.size - offset, maxFileSizeFor(resolvedPath, config));
+    const buffer = Buffer.alloc(length);
+    await handle.read(buffer, 0, length, offset);
+
+    // 改行で終わっている完全な行だけを消費し、返す行数が上限に達したらそこで止める
+    const matches = createMatcher();
+    const lines: string[] = [];
+    let position = 0;
+    let consumed = 0;
+    let hasMore = offset + length < stats.size;
+    while (position < buffer.length) {
+      const newline = buffer.indexOf(0x0a, position);
+      if (newline === -1) break;
+      const line = buffer.subarray(position, newline).toString("utf-8").replace(/\r$/, "");
+      if (matches(line)) {
+        if (lines.length >= count) {
+          hasMore = true;
+          break;
+        }
+        lines.push(line);
+      }
+      position = newline + 1;
+      consumed = position;
+    }
+
+    const nextCursor = encodeCursor({ ino: stats.ino, offset: offset + consumed });
+    const header = `=== ファイル: ${filePath} / 新規 ${lines.length} 行${filterLabel}${hasMore ? ' / 続きあり' : ''} ===${notice}\n\n`;
+    return {
+      content: [
+        { type: "text", text: lines.length > 0 ? header + lines.join('\n') : header + "新しい行はありません。" },
+        { type: "text", text: `cursor: ${nextCursor}` }
+      ]
+    };
+  } catch (error) {
+    return failureResult("readLog", error, { path: filePath });
+  } finally {
+    await handle?.close();
+  }
+}
@@ -0,0 +1,330 @@
+/**
+ * @fileoverview Markdown の構造（見出しツリー）を扱うツール群
+ * 見出しのアウトライン取得と、見出しパス（例: "Installation > Linux"）で指定したセクションの
+ * 読み取り・置換・後方への挿入・削除を提供します。コードフェンス内の "#" は見出しとして扱いません。
+ */
+
+import * as path from "path";
+import { Config } from "./config.js";
+import { ToolResult, WriteOptions, ModifyResult, modifyFile, readValidatedFile } from "./handlers.js";
+import { OperationFailure, errorResult, failureResult } from "./errors.js";
+import { t } from "./messages.js";
+import { formatContextSnippet } from "./edit.js";
+
+/**
+ * 見出し（とその配下のセクション）の情報
+ */
+export interface MarkdownHeading {
+  level: number;
+  text: string;
+  /** 見出しの開始行（1から開始） */
+  line: number;
+  /** 見出し自体の最終行（setext形式の見出しは下線の行） */
+  headingEndLine: number;
+  /** セクションの最終行（配下の小見出しを含む） */
+  endLine: number;
+  /** ルートからこの見出しまでの見出しテキスト */
+  path: string[];
+}
+
+const MARKDOWN_EXTENSIONS = [".md", ".markdown"];
+
+/**
+ * 見出しテキストから末尾の閉じ "#" と前後の空白を取り除きます
+ */
+function normalizeHeadingText(text: string): string {
+  return text.replace(/\s+#+\s*$/, "").replace(/^#+\s*$/, "").trim();
+}
+
+/**
+ * Markdown の見出しを解析します
+ *
+ * ATX形式（`# 見出し`）と setext形式（下線が `===` / `---`）に対応し、
+ * フェンスドコードブロック（``` / ~~~）内と先頭の YAML フロントマターは無視します。
+ *
+ * @param content - Markdown の内容
+ * @returns 出現順の見出し一覧（セクション範囲とパス付き）
+ */
+export function parseMarkdownHeadings(content: string): MarkdownHeading[] {
+  const lines = content.split('\n');
+  const headings: MarkdownHeading[] = [];
+  let fence: { char: string; length: number } | null = null;
+  let start = 0;
+
+  // 先頭の YAML フロントマターを読み飛ばす
+  if (lines[0]?.trimEnd() === "---") {
+    const close = lines.findIndex((line, index) => index > 0 && /^(---|\.\.\.)\s*$/.test(line));
+    if (close > 0) start = close + 1;
+  }
+
+  for (let i = start; i < lines.length; i++) {
+    const line = lines[i].replace(/\r$/, "");
+
+    if (fence) {
+      // 開始と同じ文字で同じ長さ以上のフェンスで閉じる
+      const close = /^ {0,3}(`{3,}|~{3,})\s*$/.exec(line);
+      if (close && close[1][0] === fence.char && close[1].length >= fence.length) {
+        fence = null;
+      }
+      continue;
+    }
+    const open = /^ {0,3}(`{3,}|~{3,})/.exec(line);
+    if (open) {
+      fence = { char: open[1][0], length: open[1].length };
+      continue;
+    }
+
+    const atx = /^ {0,3}(#{1,6})(?:[ \t]+(.*))?$/.exec(line);
+    if (atx) {
+      headings.push({ level: atx[1].length, text: normalizeHeadingText(atx[2] ?? ""), line: i + 1, headingEndLine: i + 1, endLine: 0, path: [] });
+      continue;
+    }
+
+    // setext形式: 空でない段落行の直後に "===" / "---" の下線
+    const next = lines[i + 1]?.replace(/\r$/, "");
+    if (next !== undefined && line.trim() !== "" && !/^ {4}/.test(line) && /^ {0,3}(=+|-+)\s*$/.test(next)
+      && (i === start || lines[i - 1].trim() === "")) {
+      headings.push({ level: next.trim()[0] === "=" ? 1 : 2, text: line.trim(), line: i + 1, headingEndLine: i + 2, endLine: 0, path: [] });
+      i++;
+    }
+  }
+
+  // セクション範囲（次の同レベル以上の見出しの直前まで）と見出しパスを求める
+  const totalLines = content.endsWith('\n') ? lines.length - 1 : lines.length;
+  const stack: MarkdownHeading[] = [];
+  headings.forEach((heading, index) => {
+    const next = headings.slice(index + 1).find(candidate => candidate.level <= heading.level);
+    heading.endLine = next ? next.line - 1 : totalLines;
+    while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) stack.pop();
+    heading.path = [...stack.map(parent => parent.text), heading.text];
+    stack.push(heading);
+  });
+  return headings;
+}
+
+// テーブルの区切り行（例: "| --- | :-: |"）
+const TABLE_DELIMITER_ROW = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+/**
+ * テーブルの行をセルに分割します（前後の "|" は区切りとして扱い、"\|" は区切りにしない。セルの前後の空白は除く）
+ */
+export function splitTableRow(line: string): string[] {
+  const trimmed = line.trim().replace(/^\|/, "").replace(/(?<!\\)\|$/, "");
+  return trimmed.split(/(?<!\\)\|/).map(cell => cell.trim());
+}
+
+/**
+ * ヘッダー行と区切り行の組（テーブルの開始）かを判定します
+ */
+export function isTableStart(line: string, next: string | undefined): boolean {
+  return line.includes("|") && next !== undefined && next.includes("-") && TABLE_DELIMITER_ROW.test(next);
+}
+
+/**
+ * 見出しパスでセクションを検索します
+ *
+ * "A > B" は見出し B のうち、直近の親見出しが A であるものに一致します（A より上の階層は問いません）。
+ *
+ * @returns 一致した見出し、または一致なし（NOT_FOUND）・曖昧な場合（INVALID_ARGUMENT、詳細情報に候補）の失敗
+ */
+export function findSection(headings: MarkdownHeading[], headingPath: string): { ok: true; heading: MarkdownHeading } | OperationFailure {
+  const segments = headingPath.split(">").map(segment => normalizeHeadingText(segment.replace(/^\s*#+\s+/, "")));
+  if (segments.length === 0 || segments.some(segment => segment === "")) {
+    return { ok: false, code: "INVALID_ARGUMENT", message: t("invalidHeadingPath", { heading: headingPath }), details: { heading: headingPath } };
+  }
+
+  const matches = headings.filter(heading =>
+    heading.path.length >= segments.length &&
+    segments.every((segment, index) => heading.path[heading.path.length - segments.length + index] === segment)
+  );
+  if (matches.length === 0) {
+    return { ok: false, code: "NOT_FOUND", message: t("headingNotFound", { heading: headingPath }), details: { heading: headingPath } };
+  }
+  if (matches.length > 1) {
+    const candidates = matches.map(match => ({ path: match.path.join(" > "), line: match.line }));
+    return {
+      ok: false,
+      code: "INVALID_ARGUMENT",
+      message: t("headingAmbiguous", { heading: headingPath, candidates }),
+      details: { heading: headingPath, candidates }
+    };
+  }
+  return { ok: true, heading: matches[0] };
+}
+
+/**
+ * Markdown ファイルかどうかを拡張子で判定します
+ */
+function isMarkdownFile(filePath: string): boolean {
+  return MARKDOWN_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+}
+
+function notMarkdownResult(filePath: string): ToolResult {
+  return errorResult("INVALID_ARGUMENT", t("notMarkdown", { path: filePath, extensions: MARKDOWN_EXTENSIONS }), { path: filePath });
+}
+
+/**
+ * 挿入・置換するテキストを行配列に変換します（末尾の改行1つは行の区切りとみなす）
+ */
+function toLines(text: string): string[] {
+  return (text.endsWith('\n') ? text.slice(0, -1) : text).split('\n');
+}
+
+/**
+ * セクションを差し替える行編集を行い、結果メッセージ付きの変換結果を返します
+ *
+ * 後続の内容がある場合は、見出しがくっつかないよう差し込む行の末尾に空行を補います。
+ */
+function spliceSection(
+  content: string,
+  filePath: string,
+  startLine: number,
+  deleteCount: number,
+  inserted: string[],
+  action: string
+): ModifyResult {
+  const lines = content.split('\n');
+  const hasFollowing = startLine - 1 + deleteCount < lines.length && lines.slice(startLine - 1 + deleteCount).some(line => line.trim() !== "");
+  const block = inserted.length > 0 && hasFollowing && inserted[inserted.length - 1].trim() !== "" ? [...inserted, ""] : inserted;
+  lines.splice(startLine - 1, deleteCount, ...block);
+  const updated = lines.join('\n');
+  const end = startLine + block.length - 1;
+  const region = block.length > 0 ? `行 ${startLine}-${end}` : `行 ${startLine}（削除位置）`;
+  return {
+    ok: true,
+    content: updated,
+    message: `成功: ファイル '${filePath}' の${action}しました。\n=== 編集領域: ${region} / 総 ${lines.length} 行 ===\n\n` +
+      formatContextSnippet(updated, startLine, end)
+  };
+}
+
+export async function handleMarkdownOutline(filePath: string, config: Config): Promise<ToolResult> {
+  try {
+    console.error(`markdown_outline: ${filePath}`);
+
+    if (!isMarkdownFile(filePath)) {
+      return notMarkdownResult(filePath);
+    }
+    const file = await readValidatedFile(filePath, config);
+    if (!file.ok) {
+      return file.result;
+    }
+
+    const headings = parseMarkdownHeadings(file.content);
+    const totalLines = file.content.split('\n').length;
+    const header = `=== アウトライン: ${filePath} / ${headings.length} 見出し / 総 ${totalLines} 行 ===`;
+    const minLevel = Math.min(...headings.map(heading => heading.level));
+    const outline = headings
+      .map(heading => `${"  ".repeat(heading.level - minLevel)}${"#".repeat(heading.level)} ${heading.text} [行 ${heading.line}-${heading.endLine}]`)
+      .join('\n');
+    return {
+      content: [
+        { type: "text", text: headings.length > 0 ? `${header}\n${outline}` : `${header}\n見出しはありません。` }
+      ]
+    };
+  } catch (error) {
+    return failureResult("outline", error, { path: filePath });
+  }
+}
+
+export async function handleReadSection(filePath: string, headingPath: string, config: Config): Promise<ToolResult> {
+  try {
+    console.error(`read_section: ${filePath} (${headingPath})`);
+
+    if (!isMarkdownFile(filePath)) {
+      return notMarkdownResult(filePath);
+    }
+    const file = await readValidatedFile(filePath, config);
+    if (!file.ok) {
+      return file.result;
+    }
+
+    const found = findSection(parseMarkdownHeadings(file.content), headingPath);
+    if (!found.ok) {
+      return errorResult(found.code, found.message, { path: filePath, ...found.details });
+    }
+
+    const { heading } = found;
+    const lines = file.content.split('\n');
+    const header = `=== ファイル: ${filePath} ===\n=== セクション: ${heading.path.join(" > ")} / 行 ${heading.line}-${heading.endLine} / 総 ${lines.length} 行 ===\n\n`;
+    return {
+      content: [
+        { type: "text", text: header + lines.slice(heading.line - 1, heading.endLine).join('\n') },
+        { type: "text", text: `content_hash: ${file.hash}` }
+      ]
+    };
+  } catch (error) {
+    return failureResult("section", error, { path: filePath });
+  }
+}
+
+export async function handleReplaceSection(
+  filePath: string,
+  headingPath: string,
+  text: string,
+  keepHeading: boolean,
+  config: Config,
+  options?: WriteOptions
+): Promise<ToolResult> {
+  console.error(`replace_section: ${filePath} (${headingPath})`);
+  if (!isMarkdownFile(filePath)) {
+    return notMarkdownResult(filePath);
+  }
+  return modifyFile("replace_section", filePath, config, options, content => {
+    const found = findSection(parseMarkdownHeadings(content), headingPath);
+    if (!found.ok) {
+      return found;
+    }
+    // keep_heading の場合は見出し行を残して本文（小見出しを含む）だけを置き換える
+    const { heading } = found;
+    const start = keepHeading ? heading.headingEndLine + 1 : heading.line;
+    const body = toLines(text);
+    const inserted = keepHeading && body[0]?.trim() !== "" ? ["", ...body] : body;
+    return spliceSection(content, filePath, start, heading.endLine - start + 1, inserted, `セクション '${heading.path.join(" > ")}' を置換`);
+  });
+}
+
+export async function handleInsertAfterSection(
+  filePath: string,
+  headingPath: string,
+  text: string,
+  config: Config,
+  options?: WriteOptions
+): Promise<ToolResult> {
+  console.error(`insert_after_section: ${filePath} (${headingPath})`);
+  if (!isMarkdownFile(filePath)) {
+    return notMarkdownResult(filePath);
+  }
+  return modifyFile("insert_after_section", filePath, config, options, content => {
+    const found = findSection(parseMarkdownHeadings(content), headingPath);
+    if (!found.ok) {
+      return found;
+    }
+    // 配下の小見出しを含むセクション全体の直後に挿入する
+    const { heading } = found;
+    const lines = content.split('\n');
+    const inserted = toLines(text);
+    const block = heading.endLine > 0 && lines[heading.endLine - 1]?.trim() !== "" ? ["", ...inserted] : inserted;
+    return spliceSection(content, filePath, heading.endLine + 1, 0, block, `セクション '${heading.path.join(" > ")}' の後に挿入`);
+  });
+}
+
+export async function handleDeleteSection(
+  filePath: string,
+  headingPath: string,
+  config: Config,
+  options?: WriteOptions
+): Promise<ToolResult> {
+  console.error(`delete_section: ${filePath} (${headingPath})`);
+  if (!isMarkdownFile(filePath)) {
+    return notMarkdownResult(filePath);
+  }
+  return modifyFile("delete_section", filePath, config, options, content => {
+    const found = findSection(parseMarkdownHeadings(content), headingPath);
+    if (!found.ok) {
+      return found;
+    }
+    const { heading } = found;
+    return spliceSection(content, filePath, heading.line, heading.endLine - heading.line + 1, [], `セクション '${heading.path.join(" > ")}'（行 ${heading.line}-${heading.endLine}）を削除`);
+  });
+}
@@ -0,0 +1,419 @@
+/**
+ * @fileoverview エラーメッセージのロケールカタログ
+ * - 日本語（既定）と英語のメッセージを同じキーで定義する
+ * - ロケールは起動時に設定（環境変数 MCP_LOCALE）し、以降のメッセージはすべてこのカタログから作成する
+ * - ツール引数の検証エラー（zod）のメッセージも同じロケールに合わせる
+ */
+
+import { z } from "zod/v4";
+
+export type Locale = "ja" | "en";
+
+/** 「〜に失敗しました」で使う操作名 */
+export type Action =
+  | "read"
+  | "write"
+  | "exists"
+  | "create"
+  | "append"
+  | "info"
+  | "edit"
+  | "patch"
+  | "versions"
+  | "undo"
+  | "list"
+  | "move"
+  | "copy"
+  | "delete"
+  | "search"
+  | "outline"
+  | "section"
+  | "getValue"
+  | "readCsv"
+  | "readLog"
+  | "diff"
+  | "batch"
+  | "validate"
+  | "format"
+  | "convert";
+
+const jaActions: Record<Action, string> = {
+  read: "ファイルの読み取り",
+  write: "ファイルの書き込み",
+  exists: "ファイル存在確認",
+  create: "ファイルの作成",
+  append: "ファイルへの追記",
+  info: "ファイル情報の取得",
+  edit: "ファイルの編集",
+  patch: "パッチの適用",
+  versions: "バージョン一覧の取得",
+  undo: "変更の取り消し",
+  list: "ファイル一覧の取得",
+  move: "ファイルの移動",
+  copy: "ファイルのコピー",
+  delete: "ファイルの削除",
+  search: "ファイルの検索",
+  outline: "アウトラインの取得",
+  section: "セクションの読み取り",
+  getValue: "値の取得",
+  readCsv: "CSVの読み取り",
+  readLog: "ログの読み取り",
+  diff: "差分の作成",
+  batch: "バッチ編集",
+  validate: "構文チェック",
+  format: "ファイルの整形",
+  convert: "ファイルの変換"
+};
+
+const enActions: Record<Action, string> = {
+  read: "read the file",
+  write: "write the file",
+  exists: "check whether the file exists",
+  create: "create the file",
+  append: "append to the file",
+  info: "get file info",
+  edit: "edit the file",
+  patch: "apply the patch",
+  versions: "list versions",
+  undo: "undo the change",
+  list: "list files",
+  move: "move the file",
+  copy: "copy the file",
+  delete: "delete the file",
+  search: "search files",
+  outline: "get the outline",
+  section: "read the section",
+  getValue: "get the value",
+  readCsv: "read the CSV file",
+  readLog: "read the log",
+  diff: "create the diff",
+  batch: "apply the batch edit",
+  validate: "validate the file",
+  format: "format the file",
+  convert: "convert the file"
+};
+
+const ja = {
+  errorPrefix: () => "エラー",
+  conflictPrefix: () => "エラー(競合)",
+  unknownError: () => "不明なエラー",
+  failed: (p: { action: Action; reason: string }) => `${jaActions[p.action]}に失敗しました - ${p.reason}`,
+  unchanged: (p: { message: string }) => `${p.message}（ファイルは変更されていません）`,
+
+  pathDenied: (p: { path?: string }) =>
+    `無効なファイルパスです${p.path !== undefined ? `（${p.path}）` : ""}。許可されたディレクトリ外にはアクセスできません。`,
+  extensionNotAllowed: (p: { extension: string; allowed: string[] }) =>
+    `ファイル拡張子 '${p.extension}' は許可されていません。許可されている拡張子: [${p.allowed.join(', ')}]`,
+  readOnly: (p: { path: string }) => `ファイル '${p.path}' は読み取り専用です（ポリシー設定）。`,
+  fileTooLarge: (p: { limit: number }) => `ファイルサイズが制限を超えています（最大: ${p.limit} bytes）`,
+  fileTooLargeUsePaging: (p: { limit: number }) =>
+    `ファイルサイズが制限を超えています（最大: ${p.limit} bytes）。start_line/max_lines または offset/length を指定すると分割して読み取れます。`,
+  rangeTooLarge: (p: { limit: number }) =>
+    `指定した範囲がサイズ制限を超えています（最大: ${p.limit} bytes）。max_lines で行数を減らしてください。`,
+  contentTooLarge: (p: { limit: number }) => `書き込み内容のサイズが制限を超えています（最大: ${p.limit} bytes）`,
+  appendTooLarge: (p: { limit: number }) => `追記後のファイルサイズが制限を超えます（最大: ${p.limit} bytes）`,
+  editTooLarge: (p: { limit: number }) => `編集後のファイルサイズが制限を超えます（最大: ${p.limit} bytes）`,
+  patchTooLarge: (p: { limit: number }) => `適用後のファイルサイズが制限を超えます（最大: ${p.limit} bytes）`,
+  fileNotFound: (p: { path: string }) => `ファイル '${p.path}' が存在しません。`,
+  directoryNotFound: (p: { path: string }) => `ディレクトリ '${p.path}' が存在しません。`,
+  alreadyExists: (p: { path: string }) => `ファイル '${p.path}' は既に存在します。`,
+  alreadyExistsUseOverwrite: (p: { path: string }) =>
+    `ファイル '${p.path}' は既に存在します。上書きする場合は overwrite を指定してください。`,
+  sameFile: () => "移動元と移動先が同じファイルです。",
+  conflict: (p: { path: string; expected: string; actual: string | null }) =>
+    `ファイル '${p.path}' は読み取り後に変更されています（期待: ${p.expected}、${p.actual === null ? "ファイルが存在しません" : `現在: ${p.actual}`}）。最新の内容を読み直してから再度実行してください。`,
+  invalidArguments: (p: { tool: string; issues: string[] }) => `ツール '${p.tool}' の引数が不正です - ${p.issues.join("; ")}`,
+  unknownTool: (p: { name: string }) => `未知のツール: ${p.name}`,
+
+  lineOutOfRange: (p: { line: number; total: number }) => `開始行 ${p.line} がファイルの範囲外です（総行数: ${p.total}）`,
+  endLineOutOfRange: (p: { line: number; start: number; total: number }) =>
+    `終了行 ${p.line} が不正です（開始行: ${p.start}、総行数: ${p.total}）`,
+  lineNotInteger: () => "行番号は整数で指定してください。",
+  editsRequired: () => "編集内容が指定されていません。",
+  editNotString: (p: { edit: number }) => `編集 ${p.edit}: old_string と new_string は文字列で指定してください。`,
+  editEmptyOldString: (p: { edit: number }) => `編集 ${p.edit}: old_string が空です。`,
+  editNotFound: (p: { edit: number }) => `編集 ${p.edit}: old_string がファイル内に見つかりません。`,
+  editAmbiguous: (p: { edit: number; lines: number[] }) =>
+    `編集 ${p.edit}: old_string が ${p.lines.length} 箇所（行 ${p.lines.join(', ')}）に一致しました。一意になるよう前後の文脈を含めるか、replace_all を指定してください。`,
+  invalidPosition: () => "position には 'before' または 'after' を指定してください。",
+  unsupportedEncoding: (p: { encoding: string }) =>
+    `未対応の文字コード '${p.encoding}' です（utf-8, utf-8-bom, shift_jis のいずれかを指定してください）`,
+  unsupportedEol: (p: { eol: string }) => `未対応の改行コード '${p.eol}' です（lf, crlf のいずれかを指定してください）`,
+  notRepresentable: () => "内容に Shift_JIS で表現できない文字が含まれています",
+
+  patchParseFailed: (p: { reason: string }) => `パッチの解析に失敗しました - ${p.reason}`,
+  patchNotFound: () => "unified diff 形式のパッチが見つかりません。",
+  patchInvalidHunkHeader: (p: { line: string }) => `ハンクヘッダーが不正です: ${p.line}`,
+  patchHunkLineMismatch: (p: { hunk: number; path: string }) => `ハンク ${p.hunk} の行数がヘッダーと一致しません（${p.path}）`,
+  patchHunkTruncated: (p: { hunk: number; path: string }) => `ハンク ${p.hunk} が途中で終わっています（${p.path}）`,
+  patchNoHunks: (p: { path: string }) => `ハンクがありません（${p.path}）`,
+  patchFile: (p: { path: string; change: "create" | "delete" | "modify" }) =>
+    `${p.path}（${{ create: "新規作成", delete: "削除", modify: "変更" }[p.change]}）`,
+  hunkApplied: (p: { hunk: number; line: number; offset?: number; fuzz?: number }) =>
+    `ハンク ${p.hunk}: 適用（行 ${p.line}${p.offset ? `、オフセット ${p.offset > 0 ? '+' : ''}${p.offset} 行` : ""}${p.fuzz ? `、ファジー ${p.fuzz}` : ""}）`,
+  hunkRejected: (p: { hunk: number }) => `ハンク ${p.hunk}: 失敗（一致する箇所が見つかりません）`,
+  patchRejected: () => "パッチを適用できませんでした（ファイルは変更されていません）",
+  patchRenameUnsupported: (p: { from: string; to: string }) =>
+    `ファイル名の変更を含むパッチには対応していません（${p.from} → ${p.to}）`,
+  patchTargetExists: () => "新規作成対象のファイルが既に存在します。",
+  patchTargetMissing: () => "ファイルが存在しません。",
+  patchDuplicateTarget: () => "同じファイルに対するセクションがパッチ内に複数あります（1つのセクションにまとめてください）。",
+  patchDeleteNotEmpty: () => "削除するファイルの内容がすべて削除されないため、削除できません。",
+  patchConflict: (p: { expected: string; actual: string | null }) =>
+    `(競合) 読み取り後に変更されています（期待: ${p.expected}、${p.actual === null ? "ファイルが存在しません" : `現在: ${p.actual}`}）`,
+  batchRejected: () => "バッチ編集を適用できませんでした（どのファイルも変更されていません）",
+  batchSkipped: () => "同じファイルに対する前の操作が失敗したため検証していません",
+  batchReport: (p: { index: number; op: string; path: string; status: "ok" | "error" | "skipped"; message: string }) =>
+    `#${p.index} ${p.op} ${p.path}: ${{ ok: "成功", error: "失敗", skipped: "未検証" }[p.status]} - ${p.message}`,
+
+  noHistory: (p: { path: string }) => `ファイル '${p.path}' には元に戻せる履歴がありません。`,
+  versionNotFound: (p: { path: string; version: number }) => `ファイル '${p.path}' にバージョン ${p.version} はありません。`,
+  undoConflict: (p: { path: string; tool: string }) =>
+    `ファイル '${p.path}' は最後に記録した変更（${p.tool}）の後に変更されているため、元に戻しませんでした。最新の内容を確認してから再度実行してください。`,
+
+  emptyQuery: () => "検索文字列が指定されていません。",
+  invalidRegex: (p: { reason: string }) => `正規表現が不正です - ${p.reason}`,
+  notMarkdown: (p: { path: string; extensions: string[] }) =>
+    `ファイル '${p.path}' は Markdown ファイルではありません（対応拡張子: ${p.extensions.join(', ')}）。`,
+  invalidHeadingPath: (p: { heading: string }) => `見出しパス '${p.heading}' が不正です。`,
+  headingNotFound: (p: { heading: string }) => `見出し '${p.heading}' が見つかりません。markdown_outline で見出しを確認してください。`,
+  headingAmbiguous: (p: { heading: string; candidates: Array<{ path: string; line: number }> }) =>
+    `見出し '${p.heading}' が ${p.candidates.length} 箇所に一致しました: ${p.candidates.map(c => `${c.path}（行 ${c.line}）`).join(', ')}。親の見出しを含めて指定してください。`,
+  notStructured: (p: { path: string }) => `ファイル '${p.path}' は JSON / YAML ファイルではありません（対応拡張子: .json, .yaml, .yml）。`,
+  invalidKeyPath: (p: { reason: string }) => `キーパスが不正です - ${p.reason}`,
+  keyNotFound: (p: { key: string; at: string }) => `キー '${p.key}' が見つかりません（'${p.at}' が存在しません）。`,
+  keyPathUnclosed: (p: { key: string }) => `キーパス '${p.key}' の角括弧が閉じられていません。`,
+  keyPathReserved: (p: { segment: string }) => `キーパスの要素に '${p.segment}' は指定できません。`,
+  indexOutOfRange: (p: { index: string; at: string }) => `配列のインデックス '${p.index}' が範囲外です（${p.at}）。`,
+  appendIndexOutOfRange: (p: { index: string }) => `配列のインデックス '${p.index}' が範囲外です（末尾への追加は "-" を指定）。`,
+  notContainer: (p: { key: string }) => `'${p.key}' はオブジェクトでも配列でもないため値を設定できません。`,
+  structuredParseFailed: (p: { format: string; reason: string }) => `${p.format} の解析に失敗しました - ${p.reason}`,
+  yamlMultiDocument: () => "複数ドキュメントを含む YAML には対応していません。",
+  yamlInvalidAfterEdit: (p: { reason: string }) => `編集後の YAML が不正になります - ${p.reason}`,
+  jsonInvalidAfterEdit: () => "編集後の JSON が想定した内容になりません。edit_file で直接編集してください。",
+  numberNotPreserved: (p: { value: string }) => `数値 ${p.value} を元の表記のまま書き戻せないため、編集を中止しました。edit_file で直接編集してください。`,
+  valueRequired: () => "設定する value が指定されていません。",
+  cannotDeleteRoot: () => "ドキュメント全体は削除できません。削除するキーを指定してください。",
+  csvNoHeader: (p: { path: string }) => `ファイル '${p.path}' にヘッダー行がありません。`,
+  csvUnclosedQuote: (p: { record: number }) => `引用符が閉じられていません（${p.record} レコード目）。`,
+  csvColumnNotFound: (p: { column: string; columns: string[] }) => `列 '${p.column}' が見つかりません（列: ${p.columns.join(', ')}）。`,
+  csvColumnExists: (p: { column: string }) => `列 '${p.column}' は既に存在します。`,
+  csvColumnRequired: () => "追加する列名が指定されていません。",
+  csvUnknownColumns: (p: { columns: string[] }) => `存在しない列が指定されています: ${p.columns.join(', ')}`,
+  csvUnknownOperator: (p: { op: string }) => `不明な比較方法です: ${p.op}`,
+  csvRowOutOfRange: (p: { row: number; total: number }) => `行 ${p.row} が範囲外です（データ行数: ${p.total}）。`,
+  csvRowTargetRequired: () => "row または key_column と key_value のいずれかで対象行を指定してください。",
+  csvKeyNotFound: (p: { column: string; value: string }) => `${p.column} = '${p.value}' の行が見つかりません。`,
+  csvKeyAmbiguous: (p: { column: string; value: string; rows: number[] }) =>
+    `${p.column} = '${p.value}' の行が ${p.rows.length} 行（${p.rows.join(', ')}）あります。row で指定してください。`,
+  csvRowsRequired: () => "追加する rows が指定されていません。",
+  csvRowLengthMismatch: (p: { length: number; expected: number }) =>
+    `配列で指定した行の列数（${p.length}）がヘッダーの列数（${p.expected}）と一致しません。`,
+  unknownLogLevel: (p: { level: string }) =>
+    `不明なログレベルです: ${p.level}（指定可能: trace, debug, info, warn, error, fatal）`,
+  invalidTimeRange: () => "since / until は ISO 8601 形式の日時か \"15m\" \"2h\" \"1d\" のような相対指定で指定してください。",
+  invalidCursor: () => "カーソルが不正です。tail_file が返した cursor をそのまま指定してください。",
+  diffTargetRequired: () => "比較対象として other_path と content のどちらか一方を指定してください。",
+  invalidResourceUri: (p: { uri: string }) => `リソースの URI が不正です: ${p.uri}（file:// の URI を指定してください）`,
+  invalidResourceCursor: (p: { cursor?: string }) => `カーソルが不正です: ${p.cursor}（resources/list が返した nextCursor をそのまま指定してください）`,
+  resourceNotifyFailed: (p: { uri: string; reason: string }) => `リソースの更新通知に失敗しました（${p.uri}）: ${p.reason}`,
+  httpUnauthorized: () => "認証に失敗しました。Authorization: Bearer <トークン> ヘッダーを指定してください。",
+  httpSessionNotFound: (p: { sessionId: string }) => `セッションが見つかりません: ${p.sessionId}（GET /sse で接続し直してください）`,
+  httpNotFound: (p: { path: string }) => `見つかりません: ${p.path}`,
+  httpInternalError: () => "サーバー内部でエラーが発生しました。",
+  syntaxInvalid: (p: { format: string }) => `${p.format} の構文エラーがあるため書き込みませんでした（SYNTAX_CHECK=warn で警告のみにできます）。`,
+  syntaxSeverity: (p: { severity: "error" | "warning" }): string => (p.severity === "error" ? "エラー" : "警告"),
+  syntaxCsvColumnCount: (p: { expected: number; actual: number }) =>
+    `列数がヘッダーと一致しません（ヘッダー: ${p.expected} 列、この行: ${p.actual} 列）`,
+  syntaxUnclosedQuote: () => "引用符が閉じられていません",
+  syntaxTextAfterQuote: () => "閉じ引用符の後に区切り文字以外の文字があります",
+  syntaxStrayQuote: () => "引用符で囲まれていないフィールドに引用符が含まれています",
+  syntaxFrontMatterUnclosed: () => "フロントマターが閉じられていません（\"---\" の行がありません）",
+  syntaxTableColumnCount: (p: { expected: number; actual: number }) =>
+    `テーブルの列数がヘッダーと一致しません（ヘッダー: ${p.expected} 列、この行: ${p.actual} 列）`,
+  syntaxTableDelimiterCount: (p: { expected: number; actual: number }) =>
+    `テーブルの区切り行の列数がヘッダーと一致しません（ヘッダー: ${p.expected} 列、区切り行: ${p.actual} 列）`,
+  syntaxFenceUnclosed: (p: { fence: string }) => `コードフェンス（${p.fence}）が閉じられていません`,
+  formatInvalid: (p: { format: string }) => `${p.format} の構文エラーがあるため整形できません。`,
+  invalidIndent: (p: { min: number; max: number }) => `indent は ${p.min}〜${p.max} の整数で指定してください。`,
+  convertUnsupported: (p: { source: string; destination: string }) =>
+    `'${p.source}' から '${p.destination}' への変換には対応していません（変換元: .csv, .json, .yaml, .yml / 変換先: .csv, .json, .yaml, .yml, .md で、形式が異なること）。`,
+  convertInvalid: (p: { format: string }) => `変換元に ${p.format} の構文エラーがあるため変換できません。`,
+  convertMultiDocument: () => "複数ドキュメントを含む YAML は変換できません。",
+  convertDuplicateColumn: (p: { column: string }) => `ヘッダー行に列名 '${p.column}' が重複しています（header: false で配列の配列として変換できます）。`,
+  convertNotFinite: (p: { value: string }) => `${p.value} は JSON で表せません`,
+  convertUnsafeInteger: () => "整数が大きすぎるため精度が失われます",
+  convertNestedCell: () => "入れ子のオブジェクト・配列は表のセルにできません",
+  convertExtraField: (p: { row: number; column: number }) => `${p.row} 行目の ${p.column} 列目に列名のないフィールドがあります（header: false で配列の配列として変換できます）。`,
+  convertLossy: (p: { location: string; reason: string }) => `'${p.location}' の値を変換できません: ${p.reason}。`,
+  convertNotTabular: (p: { format: string }) => `${p.format} に変換できるのはオブジェクトの配列または配列の配列だけです。`
+};
+
+type Catalog = typeof ja;
+
+const en: Catalog = {
+  errorPrefix: () => "Error",
+  conflictPrefix: () => "Error (conflict)",
+  unknownError: () => "unknown error",
+  failed: p => `Failed to ${enActions[p.action]} - ${p.reason}`,
+  unchanged: p => `${p.message} (the file was not changed)`,
+
+  pathDenied: p =>
+    `Invalid file path${p.path !== undefined ? ` (${p.path})` : ""}. Access outside the allowed directories is denied.`,
+  extensionNotAllowed: p =>
+    `File extension '${p.extension}' is not allowed. Allowed extensions: [${p.allowed.join(', ')}]`,
+  readOnly: p => `File '${p.path}' is read-only (policy).`,
+  fileTooLarge: p => `File size exceeds the limit (max: ${p.limit} bytes)`,
+  fileTooLargeUsePaging: p =>
+    `File size exceeds the limit (max: ${p.limit} bytes). Use start_line/max_lines or offset/length to read it in pages.`,
+  rangeTooLarge: p => `The requested range exceeds the size limit (max: ${p.limit} bytes). Reduce max_lines.`,
+  contentTooLarge: p => `Content size exceeds the limit (max: ${p.limit} bytes)`,
+  appendTooLarge: p => `File size after appending would exceed the limit (max: ${p.limit} bytes)`,
+  editTooLarge: p => `File size after editing would exceed the limit (max: ${p.limit} bytes)`,
+  patchTooLarge: p => `File size after patching would exceed the limit (max: ${p.limit} bytes)`,
+  fileNotFound: p => `File '${p.path}' does not exist.`,
+  directoryNotFound: p => `Directory '${p.path}' does not exist.`,
+  alreadyExists: p => `File '${p.path}' already exists.`,
+  alreadyExistsUseOverwrite: p => `File '${p.path}' already exists. Set overwrite to replace it.`,
+  sameFile: () => "Source and destination are the same file.",
+  conflict: p =>
+    `File '${p.path}' has changed since it was read (expected: ${p.expected}, ${p.actual === null ? "file does not exist" : `current: ${p.actual}`}). Read the latest content and try again.`,
+  invalidArguments: p => `Invalid arguments for tool '${p.tool}' - ${p.issues.join("; ")}`,
+  unknownTool: p => `Unknown tool: ${p.name}`,
+
+  lineOutOfRange: p => `Start line ${p.line} is out of range (total lines: ${p.total})`,
+  endLineOutOfRange: p => `End line ${p.line} is invalid (start line: ${p.start}, total lines: ${p.total})`,
+  lineNotInteger: () => "Line numbers must be integers.",
+  editsRequired: () => "No edits were given.",
+  editNotString: p => `Edit ${p.edit}: old_string and new_string must be strings.`,
+  editEmptyOldString: p => `Edit ${p.edit}: old_string is empty.`,
+  editNotFound: p => `Edit ${p.edit}: old_string was not found in the file.`,
+  editAmbiguous: p =>
+    `Edit ${p.edit}: old_string matched ${p.lines.length} places (lines ${p.lines.join(', ')}). Include more surrounding context to make it unique, or set replace_all.`,
+  invalidPosition: () => "position must be 'before' or 'after'.",
+  unsupportedEncoding: p => `Unsupported encoding '${p.encoding}' (use utf-8, utf-8-bom or shift_jis)`,
+  unsupportedEol: p => `Unsupported line ending '${p.eol}' (use lf or crlf)`,
+  notRepresentable: () => "The content contains characters that cannot be represented in Shift_JIS",
+
+  patchParseFailed: p => `Failed to parse the patch - ${p.reason}`,
+  patchNotFound: () => "No unified diff patch was found.",
+  patchInvalidHunkHeader: p => `Invalid hunk header: ${p.line}`,
+  patchHunkLineMismatch: p => `Hunk ${p.hunk} does not match the line counts in its header (${p.path})`,
+  patchHunkTruncated: p => `Hunk ${p.hunk} ends early (${p.path})`,
+  patchNoHunks: p => `No hunks (${p.path})`,
+  patchFile: p => `${p.path} (${{ create: "create", delete: "delete", modify: "modify" }[p.change]})`,
+  hunkApplied: p =>
+    `Hunk ${p.hunk}: applied (line ${p.line}${p.offset ? `, offset ${p.offset > 0 ? '+' : ''}${p.offset} lines` : ""}${p.fuzz ? `, fuzz ${p.fuzz}` : ""})`,
+  hunkRejected: p => `Hunk ${p.hunk}: failed (no matching location)`,
+  patchRejected: () => "The patch could not be applied (no files were changed)",
+  patchRenameUnsupported: p => `Patches that rename files are not supported (${p.from} → ${p.to})`,
+  patchTargetExists: () => "The file to be created already exists.",
+  patchTargetMissing: () => "The file does not exist.",
+  patchDuplicateTarget: () => "The patch has more than one section for this file (combine them into one section).",
+  patchDeleteNotEmpty: () => "Cannot delete the file because the hunks do not remove all of its content.",
+  patchConflict: p =>
+    `(conflict) changed since it was read (expected: ${p.expected}, ${p.actual === null ? "file does not exist" : `current: ${p.actual}`})`,
+  batchRejected: () => "The batch edit could not be applied (no files were changed).",
+  batchSkipped: () => "Not validated because an earlier operation on the same file failed.",
+  batchReport: p => `#${p.index} ${p.op} ${p.path}: ${{ ok: "ok", error: "failed", skipped: "not validated" }[p.status]} - ${p.message}`,
+
+  noHistory: p => `File '${p.path}' has no history to undo.`,
+  versionNotFound: p => `File '${p.path}' has no version ${p.version}.`,
+  undoConflict: p =>
+    `File '${p.path}' was not restored because it has changed since the last recorded change (${p.tool}). Check the current content and try again.`,
+
+  emptyQuery: () => "No search query was given.",
+  invalidRegex: p => `Invalid regular expression - ${p.reason}`,
+  notMarkdown: p => `File '${p.path}' is not a Markdown file (supported extensions: ${p.extensions.join(', ')}).`,
+  invalidHeadingPath: p => `Invalid heading path '${p.heading}'.`,
+  headingNotFound: p => `Heading '${p.heading}' was not found. Check the headings with markdown_outline.`,
+  headingAmbiguous: p =>
+    `Heading '${p.heading}' matched ${p.candidates.length} sections: ${p.candidates.map(c => `${c.path} (line ${c.line})`).join(', ')}. Include the parent heading.`,
+  notStructured: p => `File '${p.path}' is not a JSON / YAML file (supported extensions: .json, .yaml, .yml).`,
+  invalidKeyPath: p => `Invalid key path - ${p.reason}`,
+  keyNotFound: p => `Key '${p.key}' was not found ('${p.at}' does not exist).`,
+  keyPathUnclosed: p => `Unclosed bracket in key path '${p.key}'.`,
+  keyPathReserved: p => `'${p.segment}' cannot be used as a key path segment.`,
+  indexOutOfRange: p => `Array index '${p.index}' is out of range (${p.at}).`,
+  appendIndexOutOfRange: p => `Array index '${p.index}' is out of range (use "-" to append).`,
+  notContainer: p => `Cannot set a value because '${p.key}' is neither an object nor an array.`,
+  structuredParseFailed: p => `Failed to parse the ${p.format} - ${p.reason}`,
+  yamlMultiDocument: () => "YAML with multiple documents is not supported.",
+  yamlInvalidAfterEdit: p => `The edit would make the YAML invalid - ${p.reason}`,
+  jsonInvalidAfterEdit: () => "The edited JSON does not match the expected content. Edit the file directly with edit_file.",
+  numberNotPreserved: p => `The number ${p.value} cannot be written back as written, so the edit was aborted. Edit the file directly with edit_file.`,
+  valueRequired: () => "No value was given to set.",
+  cannotDeleteRoot: () => "The whole document cannot be deleted. Specify the key to delete.",
+  csvNoHeader: p => `File '${p.path}' has no header row.`,
+  csvUnclosedQuote: p => `Unclosed quote (record ${p.record}).`,
+  csvColumnNotFound: p => `Column '${p.column}' was not found (columns: ${p.columns.join(', ')}).`,
+  csvColumnExists: p => `Column '${p.column}' already exists.`,
+  csvColumnRequired: () => "No column name was given.",
+  csvUnknownColumns: p => `Unknown columns: ${p.columns.join(', ')}`,
+  csvUnknownOperator: p => `Unknown comparison operator: ${p.op}`,
+  csvRowOutOfRange: p => `Row ${p.row} is out of range (data rows: ${p.total}).`,
+  csvRowTargetRequired: () => "Specify the target row with row, or with key_column and key_value.",
+  csvKeyNotFound: p => `No row has ${p.column} = '${p.value}'.`,
+  csvKeyAmbiguous: p => `${p.rows.length} rows (${p.rows.join(', ')}) have ${p.column} = '${p.value}'. Specify the row with row.`,
+  csvRowsRequired: () => "No rows were given to append.",
+  csvRowLengthMismatch: p => `A row given as an array has ${p.length} columns, but the header has ${p.expected}.`,
+  unknownLogLevel: p => `Unknown log level: ${p.level} (valid: trace, debug, info, warn, error, fatal)`,
+  invalidTimeRange: () => "since / until must be an ISO 8601 date-time or a relative value such as \"15m\", \"2h\" or \"1d\".",
+  invalidCursor: () => "Invalid cursor. Pass the cursor returned by tail_file unchanged.",
+  diffTargetRequired: () => "Specify exactly one of other_path or content to compare against.",
+  invalidResourceUri: p => `Invalid resource URI: ${p.uri} (use a file:// URI)`,
+  invalidResourceCursor: p => `Invalid cursor: ${p.cursor} (pass the nextCursor returned by resources/list unchanged)`,
+  resourceNotifyFailed: p => `Failed to send the resource update notification (${p.uri}): ${p.reason}`,
+  httpUnauthorized: () => "Unauthorized. Send an Authorization: Bearer <token> header.",
+  httpSessionNotFound: p => `Session not found: ${p.sessionId} (reconnect with GET /sse)`,
+  httpNotFound: p => `Not found: ${p.path}`,
+  httpInternalError: () => "Internal server error.",
+  syntaxInvalid: p => `Not written because the content has ${p.format} syntax errors (set SYNTAX_CHECK=warn to only warn).`,
+  syntaxSeverity: p => (p.severity === "error" ? "error" : "warning"),
+  syntaxCsvColumnCount: p => `Column count does not match the header (header: ${p.expected}, this row: ${p.actual})`,
+  syntaxUnclosedQuote: () => "Unclosed quote",
+  syntaxTextAfterQuote: () => "Unexpected character after the closing quote",
+  syntaxStrayQuote: () => "Quote inside an unquoted field",
+  syntaxFrontMatterUnclosed: () => "Front matter is not closed (no \"---\" line)",
+  syntaxTableColumnCount: p => `Table column count does not match the header (header: ${p.expected}, this row: ${p.actual})`,
+  syntaxTableDelimiterCount: p => `Table delimiter row column count does not match the header (header: ${p.expected}, delimiter row: ${p.actual})`,
+  syntaxFenceUnclosed: p => `Code fence (${p.fence}) is not closed`,
+  formatInvalid: p => `Cannot format because the content has ${p.format} syntax errors.`,
+  invalidIndent: p => `indent must be an integer from ${p.min} to ${p.max}.`,
+  convertUnsupported: p =>
+    `Cannot convert '${p.source}' to '${p.destination}' (sources: .csv, .json, .yaml, .yml / targets: .csv, .json, .yaml, .yml, .md, in a different format).`,
+  convertInvalid: p => `Cannot convert because the source has ${p.format} syntax errors.`,
+  convertMultiDocument: () => "Cannot convert YAML with multiple documents.",
+  convertDuplicateColumn: p => `Column '${p.column}' appears more than once in the header row (use header: false to convert rows as arrays).`,
+  convertNotFinite: p => `${p.value} cannot be represented in JSON`,
+  convertUnsafeInteger: () => "the integer is too large to keep its precision",
+  convertNestedCell: () => "nested objects and arrays cannot be table cells",
+  convertExtraField: p => `Row ${p.row} has a field without a column name at column ${p.column} (use header: false to convert rows as arrays).`,
+  convertLossy: p => `Cannot convert the value at '${p.location}': ${p.reason}.`,
+  convertNotTabular: p => `Only an array of objects or an array of arrays can be converted to ${p.format}.`
+};
+
+const catalogs: Record<Locale, Catalog> = { ja, en };
+
+let currentLocale: Locale = "ja";
+
+/**
+ * メッセージのロケールを設定します
+ */
+export function setLocale(locale: Locale): void {
+  currentLocale = locale;
+  z.config(locale === "ja" ? z.locales.ja() : z.locales.en());
+}
+
+/**
+ * 現在のロケールでメッセージを作成します
+ *
+ * @example
+ * ```typescript
+ * t("fileNotFound", { path: "notes.md" }); // => "ファイル 'notes.md' が存在しません。"
+ * ```
+ */
+export function t<K extends keyof Catalog>(key: K, ...args: Parameters<Catalog[K]>): string {
+  const message = catalogs[currentLocale][key] as (...params: Parameters<Catalog[K]>) => string;
+  return message(...args);
+}
@@ -0,0 +1,295 @@
+/**
+ * @fileoverview unified diff 形式パッチの解析と適用
+ * 単一・複数ファイルのパッチを解析し、コンテキストのずれをファジーマッチで吸収しながら適用します。
+ */
+
+import { OperationError } from "./errors.js";
+import { t } from "./messages.js";
+
+/**
+ * パッチ内の1つのハンク
+ */
+export interface Hunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  /** 先頭に ' ' / '-' / '+' が付いた行（"\ No newline at end of file" は除く） */
+  lines: string[];
+  /** 変更前の最終行に改行がない */
+  oldNoNewlineAtEnd: boolean;
+  /** 変更後の最終行に改行がない */
+  newNoNewlineAtEnd: boolean;
+}
+
+/**
+ * 1ファイル分のパッチ
+ */
+export interface FilePatch {
+  /** 変更前のパス（新規作成の場合はnull） */
+  oldPath: string | null;
+  /** 変更後のパス（削除の場合はnull） */
+  newPath: string | null;
+  hunks: Hunk[];
+}
+
+/**
+ * ハンクごとの適用結果
+ */
+export interface HunkResult {
+  index: number;
+  applied: boolean;
+  /** 適用された行番号（先行ハンク適用後の内容における1始まりの行） */
+  line?: number;
+  /** ヘッダーの行番号（先行ハンクによる増減を考慮）からのずれ */
+  offset?: number;
+  /** 無視したコンテキスト行数 */
+  fuzz?: number;
+}
+
+/**
+ * パッチ適用結果
+ */
+export type PatchApplyResult =
+  | { ok: true; content: string; hunks: HunkResult[] }
+  | { ok: false; hunks: HunkResult[] };
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * "--- a/foo.md\t2024-01-01" のようなファイルヘッダーからパスを取り出します
+ */
+function parseHeaderPath(line: string): string | null {
+  let value = line.slice(4).split('\t')[0].trim();
+  if (value.startsWith('"') && value.endsWith('"')) {
+    value = value.slice(1, -1);
+  }
+  return value === "/dev/null" ? null : value;
+}
+
+/**
+ * git形式の "a/" "b/" プレフィックスを取り除きます
+ */
+function stripGitPrefix(patch: FilePatch): FilePatch {
+  const paths = [patch.oldPath, patch.newPath].filter((p): p is string => p !== null);
+  const hasPrefix = paths.length > 0 &&
+    (patch.oldPath === null || patch.oldPath.startsWith("a/")) &&
+    (patch.newPath === null || patch.newPath.startsWith("b/"));
+  if (!hasPrefix) {
+    return patch;
+  }
+  return {
+    ...patch,
+    oldPath: patch.oldPath?.slice(2) ?? null,
+    newPath: patch.newPath?.slice(2) ?? null,
+  };
+}
+
+/**
+ * unified diff 形式のテキストを解析します
+ *
+ * `diff --git` や `index` などの拡張ヘッダーは無視し、`---` / `+++` / `@@` を解釈します。
+ *
+ * @param text - パッチ全体のテキスト
+ * @returns ファイルごとのパッチ配列
+ * @throws OperationError パッチの形式が不正な場合（詳細情報は不正なハンクの番号と行番号）
+ */
+export function parsePatch(text: string): FilePatch[] {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const patches: FilePatch[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    if (!lines[i].startsWith("--- ") || !lines[i + 1]?.startsWith("+++ ")) {
+      i++;
+      continue;
+    }
+
+    const patch: FilePatch = {
+      oldPath: parseHeaderPath(lines[i]),
+      newPath: parseHeaderPath(lines[i + 1]),
+      hunks: [],
+    };
+    const displayPath = (patch.newPath ?? patch.oldPath) as string;
+    i += 2;
+
+    while (i < lines.length && lines[i].startsWith("@@")) {
+      const match = HUNK_HEADER.exec(lines[i]);
+      if (!match) {
+        throw new OperationError("INVALID_ARGUMENT", t("patchInvalidHunkHeader", { line: lines[i] }), { line: i + 1 });
+      }
+      const hunk: Hunk = {
+        oldStart: parseInt(match[1], 10),
+        oldLines: match[2] === undefined ? 1 : parseInt(match[2], 10),
+        newStart: parseInt(match[3], 10),
+        newLines: match[4] === undefined ? 1 : parseInt(match[4], 10),
+        lines: [],
+        oldNoNewlineAtEnd: false,
+        newNoNewlineAtEnd: false,
+      };
+      i++;
+
+      let oldCount = 0;
+      let newCount = 0;
+      while (i < lines.length && (oldCount < hunk.oldLines || newCount < hunk.newLines)) {
+        const line = lines[i];
+        // 末尾空白が削られた空のコンテキスト行も許容する
+        const prefix = line.length === 0 ? ' ' : line[0];
+        const body = line.length === 0 ? ' ' : line;
+        if (prefix === ' ') {
+          oldCount++;
+          newCount++;
+        } else if (prefix === '-') {
+          oldCount++;
+        } else if (prefix === '+') {
+          newCount++;
+        } else if (prefix !== '\\') {
+          throw new OperationError("INVALID_ARGUMENT", t("patchHunkLineMismatch", { hunk: patch.hunks.length + 1, path: displayPath }), { path: displayPath, hunk: patch.hunks.length + 1, line: i + 1 });
+        }
+        if (prefix !== '\\') {
+          hunk.lines.push(body);
+        }
+        i++;
+        // "\ No newline at end of file" は直前の行に付く
+        if (lines[i]?.startsWith('\\')) {
+          if (prefix !== '+') hunk.oldNoNewlineAtEnd = true;
+          if (prefix !== '-') hunk.newNoNewlineAtEnd = true;
+          i++;
+        }
+      }
+      if (oldCount !== hunk.oldLines || newCount !== hunk.newLines) {
+        throw new OperationError("INVALID_ARGUMENT", t("patchHunkTruncated", { hunk: patch.hunks.length + 1, path: displayPath }), { path: displayPath, hunk: patch.hunks.length + 1 });
+      }
+      patch.hunks.push(hunk);
+    }
+
+    if (patch.hunks.length === 0) {
+      throw new OperationError("INVALID_ARGUMENT", t("patchNoHunks", { path: displayPath }), { path: displayPath });
+    }
+    patches.push(stripGitPrefix(patch));
+  }
+
+  if (patches.length === 0) {
+    throw new OperationError("INVALID_ARGUMENT", t("patchNotFound"));
+  }
+  return patches;
+}
+
+/**
+ * lines の position 以降が expected と一致するかを判定します
+ */
+function matchesAt(lines: string[], expected: string[], position: number): boolean {
+  if (position < 0 || position + expected.length > lines.length) {
+    return false;
+  }
+  for (let i = 0; i < expected.length; i++) {
+    if (lines[position + i] !== expected[i]) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * 期待位置から前後に広げながら一致位置を探します
+ */
+function findNearest(lines: string[], expected: string[], expectedPosition: number, minPosition: number): number {
+  const limit = Math.max(expectedPosition - minPosition, lines.length - expectedPosition);
+  for (let distance = 0; distance <= limit; distance++) {
+    const before = expectedPosition - distance;
+    if (before >= minPosition && matchesAt(lines, expected, before)) {
+      return before;
+    }
+    const after = expectedPosition + distance;
+    if (distance > 0 && matchesAt(lines, expected, after)) {
+      return after;
+    }
+  }
+  return -1;
+}
+
+/**
+ * パッチのハンクを内容に適用します
+ *
+ * GNU patch と同様に、ヘッダーの行番号で一致しない場合は前後に探索し、
+ * それでも見つからない場合は先頭・末尾のコンテキスト行を最大 maxFuzz 行まで無視して照合します。
+ * 1つでも適用できないハンクがあれば ok: false を返します。
+ *
+ * @param content - 変更前の内容（新規作成の場合は空文字列）
+ * @param hunks - 適用するハンク
+ * @param maxFuzz - 無視してよいコンテキスト行数の上限
+ * @returns 適用結果とハンクごとの結果
+ */
+export function applyHunks(content: string, hunks: Hunk[], maxFuzz = 2): PatchApplyResult {
+  const endsWithNewline = content === "" || content.endsWith('\n');
+  const lines = content === "" ? [] : (endsWithNewline ? content.slice(0, -1) : content).split('\n');
+  let noNewlineAtEnd = !endsWithNewline;
+
+  const results: HunkResult[] = [];
+  let offset = 0;
+  // 先行ハンクが適用された位置より前には戻らない
+  let minPosition = 0;
+  let failed = false;
+
+  hunks.forEach((hunk, index) => {
+    const oldBlock = hunk.lines.filter(line => line[0] !== '+').map(line => line.slice(1));
+    const newBlock = hunk.lines.filter(line => line[0] !== '-').map(line => line.slice(1));
+    // oldLines が 0 の場合、oldStart は挿入位置の直前の行を指す
+    const expectedPosition = Math.max(0, (hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1) + offset);
+
+    let leadingContext = 0;
+    while (leadingContext < hunk.lines.length && hunk.lines[leadingContext][0] === ' ') leadingContext++;
+    let trailingContext = 0;
+    while (trailingContext < hunk.lines.length && hunk.lines[hunk.lines.length - 1 - trailingContext][0] === ' ') trailingContext++;
+
+    for (let fuzz = 0; fuzz <= maxFuzz; fuzz++) {
+      const dropHead = Math.min(fuzz, leadingContext);
+      const dropTail = Math.min(fuzz, trailingContext);
+      if (fuzz > 0 && dropHead === 0 && dropTail === 0) {
+        break;
+      }
+      const oldTrimmed = oldBlock.slice(dropHead, oldBlock.length - dropTail);
+      const newTrimmed = newBlock.slice(dropHead, newBlock.length - dropTail);
+      const position = findNearest(lines, oldTrimmed, expectedPosition + dropHead, minPosition);
+      if (position === -1) {
+        continue;
+      }
+
+      lines.splice(position, oldTrimmed.length, ...newTrimmed);
+      const line = position - dropHead + 1;
+      results.push({ index: index + 1, applied: true, line, offset: line - 1 - expectedPosition, fuzz });
+      offset += newTrimmed.length - oldTrimmed.length;
+      minPosition = position + newTrimmed.length;
+
+      // ファイル末尾に触れるハンクは末尾改行の有無を変更しうる
+      if (position + newTrimmed.length === lines.length && dropTail === 0) {
+        if (hunk.newNoNewlineAtEnd) {
+          noNewlineAtEnd = true;
+        } else if (hunk.oldNoNewlineAtEnd) {
+          noNewlineAtEnd = false;
+        }
+      }
+      return;
+    }
+
+    failed = true;
+    results.push({ index: index + 1, applied: false });
+  });
+
+  if (failed) {
+    return { ok: false, hunks: results };
+  }
+  const joined = lines.join('\n');
+  return { ok: true, content: lines.length === 0 ? "" : noNewlineAtEnd ? joined : joined + '\n', hunks: results };
+}
+
+/**
+ * ハンクごとの結果を表示用の文字列に変換します
+ */
+export function formatHunkResults(results: HunkResult[]): string {
+  return results
+    .map(result => result.applied
+      ? `  ${t("hunkApplied", { hunk: result.index, line: result.line as number, offset: result.offset, fuzz: result.fuzz })}`
+      : `  ${t("hunkRejected", { hunk: result.index })}`)
+    .join('\n');
+}
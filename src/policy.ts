@@ -0,0 +1,170 @@
+/**
+ * @fileoverview パスごとのポリシー設定ファイル（.mcp-file-editor.json）
+ * - glob ルールで許可拡張子・サイズ上限・アクセス種別（読み書き / 読み取り専用 / 不可視）をパスごとに設定する
+ * - 内容は zod で検証し、ファイルの更新日時が変わったら次のアクセス時に再読み込みする
+ */
+
+import * as fs from "fs/promises";
+import * as path from "path";
+import { z } from "zod/v4";
+import { Config } from "./config.js";
+import { matchGlob } from "./glob.js";
+
+/** ワークスペースルートに置くポリシーファイルの既定のファイル名 */
+export const POLICY_FILE_NAME = ".mcp-file-editor.json";
+
+/**
+ * アクセス種別
+ * - read-write: 読み書き可能
+ * - read-only: 読み取りのみ（書き込み・削除・移動は拒否）
+ * - deny: 不可視（存在しないものとして扱い、一覧・検索にも出さない）
+ */
+const accessSchema = z.enum(["read-write", "read-only", "deny"]);
+
+const ruleSchema = z.object({
+  /** 対象パスの glob パターン（ルートからの相対パス。"/" を含まない場合はファイル・ディレクトリ名で照合） */
+  path: z.string().min(1),
+  access: accessSchema.optional(),
+  /** 許可する拡張子（ドットの有無は問わない） */
+  extensions: z.array(z.string().min(1)).optional(),
+  /** 最大ファイルサイズ（bytes） */
+  maxFileSize: z.number().int().positive().optional(),
+}).strict();
+
+const policySchema = z.object({
+  /** 上から順に照合し、一致したルールの設定で上書きする（後のルールが優先） */
+  rules: z.array(ruleSchema),
+}).strict();
+
+export type Access = z.infer<typeof accessSchema>;
+export type PolicyRule = z.infer<typeof ruleSchema>;
+
+/**
+ * パスに適用される設定
+ */
+export interface PathPolicy {
+  access: Access;
+  allowedExtensions: string[];
+  maxFileSize: number;
+}
+
+// 読み込み済みのポリシー（キーはポリシーファイルのパス）。mtimeMs が null の場合はファイルなし
+const loadedPolicies = new Map<string, { mtimeMs: number | null; rules: PolicyRule[] }>();
+
+/**
+ * ポリシーファイルを読み込んで検証します（前回から変更がなければ何もしない）
+ *
+ * @throws 不正な JSON やスキーマに合わない内容の場合（エラー内容に該当箇所を含む）
+ */
+export async function loadPolicy(config: Config): Promise<void> {
+  const stats = await fs.stat(config.policyFile).catch(() => null);
+  const mtimeMs = stats?.mtimeMs ?? null;
+  const previous = loadedPolicies.get(config.policyFile);
+  if (previous && previous.mtimeMs === mtimeMs) {
+    return;
+  }
+  if (mtimeMs === null) {
+    loadedPolicies.set(config.policyFile, { mtimeMs, rules: [] });
+    return;
+  }
+  // 不正な内容でも同じ版を何度も読み直さないよう、更新日時だけは先に記録する（ルールは直前のまま）
+  if (previous) {
+    loadedPolicies.set(config.policyFile, { mtimeMs, rules: previous.rules });
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(await fs.readFile(config.policyFile, "utf-8"));
+  } catch (error) {
+    throw new Error(`ポリシーファイル ${config.policyFile} を JSON として読み込めません - ${error instanceof Error ? error.message : error}`);
+  }
+  const parsed = policySchema.safeParse(json);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+    throw new Error(`ポリシーファイル ${config.policyFile} が不正です - ${issues.join("; ")}`);
+  }
+  const rules = parsed.data.rules.map(rule => ({
+    ...rule,
+    extensions: rule.extensions?.map(ext => ext.startsWith(".") ? ext : "." + ext),
+  }));
+  loadedPolicies.set(config.policyFile, { mtimeMs, rules });
+  console.error(`ポリシーを読み込みました: ${config.policyFile}（${rules.length} ルール）`);
+}
+
+/**
+ * ポリシーファイルの変更を反映します
+ *
+ * 再読み込みに失敗した場合は直前の正しいポリシーを使い続け、エラーをログに出力します。
+ */
+export async function refreshPolicy(config: Config): Promise<void> {
+  try {
+    await loadPolicy(config);
+  } catch (error) {
+    console.error(`ポリシーの再読み込みに失敗しました（直前のポリシーを使用します）: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * 対象パスを含む許可ルートからの相対パス（"/" 区切り）を返します（どのルートにも含まれない場合は空文字列）
+ */
+export function relativeToRoot(resolvedPath: string, config: Config): string {
+  return config.allowedRoots
+    .map(root => path.relative(root, resolvedPath))
+    .find(relative => relative !== ".." && !relative.startsWith(".." + path.sep) && !path.isAbsolute(relative))
+    ?.split(path.sep).join("/") ?? "";
+}
+
+/**
+ * ルールのパターンが対象パスまたはその親ディレクトリに一致するかを判定します
+ */
+function matchesRule(relativePath: string, pattern: string): boolean {
+  const segments = relativePath.split("/");
+  for (let i = segments.length; i > 0; i--) {
+    if (matchGlob(segments.slice(0, i).join("/"), pattern)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * パスに適用される設定を求めます
+ *
+ * 環境変数の設定を既定値とし、一致するルールを上から順に適用します。
+ * パターンは対象パスを含む許可ルートからの相対パスで照合します。
+ * ポリシーファイル自体と監査ログはサーバー経由では変更できないよう常に読み取り専用です。
+ *
+ * @param resolvedPath - resolvePath で解決済みの絶対パス
+ * @param config - 設定オブジェクト
+ *
+ * @example
+ * ```typescript
+ * // rules: [{ path: "logs/**", access: "read-only" }, { path: "**\/secrets*", access: "deny" }]
+ * policyFor("/workspace/logs/app.log", config).access;    // => "read-only"
+ * policyFor("/workspace/config/secrets.json", config).access; // => "deny"
+ * ```
+ */
+export function policyFor(resolvedPath: string, config: Config): PathPolicy {
+  const policy: PathPolicy = {
+    access: "read-write",
+    allowedExtensions: config.allowedExtensions,
+    maxFileSize: config.maxFileSize,
+  };
+
+  // 対象パスを含む許可ルートからの相対パス（"/" 区切り）で照合する
+  const relativePath = relativeToRoot(resolvedPath, config);
+  if (relativePath !== "") {
+    for (const rule of loadedPolicies.get(config.policyFile)?.rules ?? []) {
+      if (!matchesRule(relativePath, rule.path)) continue;
+      policy.access = rule.access ?? policy.access;
+      policy.allowedExtensions = rule.extensions ?? policy.allowedExtensions;
+      policy.maxFileSize = rule.maxFileSize ?? policy.maxFileSize;
+    }
+  }
+
+  // ポリシーファイルと監査ログはツールから書き換えさせない
+  if ((resolvedPath === config.policyFile || resolvedPath === config.auditLog) && policy.access === "read-write") {
+    policy.access = "read-only";
+  }
+  return policy;
+}
@@ -0,0 +1,163 @@
+/**
+ * @fileoverview 大きなファイルのためのメモリ使用量を抑えた読み取り
+ * - ファイルをストリームで1回走査して行の開始バイト位置の索引を作り、ファイルごとにキャッシュする
+ *   （更新日時・サイズ・inode が変わったら作り直す）
+ * - 行範囲・バイト範囲の読み取りは索引を使って必要な部分だけを位置指定で読み取る
+ */
+
+import { createHash } from "crypto";
+import { createReadStream } from "fs";
+import * as fs from "fs/promises";
+import { TextFormat, decodeWithFormat } from "./encoding.js";
+
+/**
+ * 行の開始位置の索引
+ */
+export interface LineIndex {
+  mtimeMs: number;
+  size: number;
+  ino: number;
+  /** 各行の開始バイト位置（`\n` で分割した行と対応、要素数が総行数） */
+  offsets: number[];
+  /** ファイル全体の content_hash */
+  hash: string;
+}
+
+// 索引のキャッシュ（キーは解決済みパス、挿入順を利用して古いものから破棄）
+const indexCache = new Map<string, LineIndex>();
+const MAX_CACHED_INDEXES = 32;
+
+/**
+ * ファイルをストリームで走査し、行の開始位置の索引とハッシュを作成します
+ */
+async function buildLineIndex(filePath: string): Promise<Omit<LineIndex, "mtimeMs" | "size" | "ino">> {
+  const offsets = [0];
+  const hash = createHash("sha256");
+  let position = 0;
+  for await (const chunk of createReadStream(filePath)) {
+    const buffer = chunk as Buffer;
+    hash.update(buffer);
+    let newline = buffer.indexOf(0x0a);
+    while (newline !== -1) {
+      offsets.push(position + newline + 1);
+      newline = buffer.indexOf(0x0a, newline + 1);
+    }
+    position += buffer.length;
+  }
+  return { offsets, hash: hash.digest("hex") };
+}
+
+/**
+ * キャッシュ済みの索引を返します（ファイルが変更されていれば作り直す）
+ *
+ * @param filePath - 対象ファイルの（解決済み）パス
+ */
+export async function getLineIndex(filePath: string): Promise<LineIndex> {
+  const stats = await fs.stat(filePath);
+  const cached = indexCache.get(filePath);
+  if (cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size && cached.ino === stats.ino) {
+    return cached;
+  }
+
+  const built = await buildLineIndex(filePath);
+  // 走査中に書き込まれた場合に備え、走査後のサイズと一致した場合だけキャッシュする
+  const after = await fs.stat(filePath);
+  const index: LineIndex = { mtimeMs: stats.mtimeMs, size: stats.size, ino: stats.ino, ...built };
+  indexCache.delete(filePath);
+  if (after.mtimeMs === stats.mtimeMs && after.size === stats.size) {
+    indexCache.set(filePath, index);
+    if (indexCache.size > MAX_CACHED_INDEXES) {
+      indexCache.delete(indexCache.keys().next().value as string);
+    }
+  }
+  return index;
+}
+
+/**
+ * 指定した行範囲が占めるバイト範囲を返します
+ *
+ * @param index - 行の索引
+ * @param startLine - 開始行（1から開始）
+ * @param endLine - 終了行（この行を含む）
+ */
+export function lineRangeBytes(index: LineIndex, startLine: number, endLine: number): { start: number; end: number } {
+  const start = index.offsets[startLine - 1];
+  // 次の行の開始位置の直前（区切りの \n を除く）まで
+  const end = endLine < index.offsets.length ? index.offsets[endLine] - 1 : index.size;
+  return { start, end };
+}
+
+/**
+ * ファイルの指定バイト範囲を位置指定で読み取ります
+ */
+export async function readBytes(filePath: string, start: number, end: number): Promise<Buffer> {
+  const handle = await fs.open(filePath, "r");
+  try {
+    const buffer = Buffer.alloc(Math.max(0, end - start));
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, start);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * UTF-8 の文字の途中にならないよう、位置を直前の文字境界まで戻します
+ */
+function alignToCharBoundary(buffer: Buffer, position: number): number {
+  let aligned = position;
+  while (aligned > 0 && aligned < buffer.length && (buffer[aligned] & 0xc0) === 0x80) {
+    aligned--;
+  }
+  return aligned;
+}
+
+/**
+ * バイトオフセットから一定量を読み取ります（文字の途中で切れないよう境界を揃える）
+ *
+ * @param filePath - 対象ファイルの（解決済み）パス
+ * @param offset - 読み取り開始バイト位置
+ * @param length - 読み取る最大バイト数
+ * @param format - ファイルの形式（Shift_JIS の場合は行単位で区切る）
+ * @returns 読み取った文字列と、実際の範囲・次の読み取り開始位置
+ */
+export async function readByteChunk(
+  filePath: string,
+  offset: number,
+  length: number,
+  format: TextFormat
+): Promise<{ text: string; start: number; end: number; size: number }> {
+  const { size } = await fs.stat(filePath);
+  const start = Math.min(offset, size);
+  // 前後に最大3バイト余分に読み、文字境界を調整する
+  const readStart = Math.max(0, start - 3);
+  const buffer = await readBytes(filePath, readStart, Math.min(size, start + length + 3));
+  let from = start - readStart;
+  const limit = Math.min(buffer.length, start - readStart + length);
+  let to = limit;
+  if (format.encoding === "shift_jis") {
+    // Shift_JIS は2バイト目から文字境界を判別できないため、改行の直後で区切る
+    const newline = buffer.lastIndexOf(0x0a, limit - 1);
+    if (limit < buffer.length && newline >= from) {
+      to = newline + 1;
+    }
+  } else {
+    from = alignToCharBoundary(buffer, from);
+    to = limit >= buffer.length ? buffer.length : alignToCharBoundary(buffer, limit);
+  }
+  const chunk = buffer.subarray(from, to);
+  // BOM はファイル先頭から読む場合のみ取り除く
+  const text = decodeWithFormat(chunk, { ...format, bom: format.bom && readStart + from === 0 });
+  return { text, start: readStart + from, end: readStart + to, size };
+}
+
+/**
+ * ファイル全体を読み込まずにハッシュを計算します
+ */
+export async function streamContentHash(filePath: string): Promise<string> {
+  const hash = createHash("sha256");
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest("hex");
+}
@@ -0,0 +1,219 @@
+/**
+ * @fileoverview MCP リソース
+ * - 許可ルート内の許可された拡張子のファイルを file:// リソースとして公開する
+ * - 読み取りは read_file と同じパス・拡張子・存在・サイズのチェックを通す
+ * - 購読中のファイルをポーリングで監視し、ディスク上で変更されたら notifications/resources/updated を送る
+ */
+
+import { watchFile, unwatchFile, Stats } from "fs";
+import * as path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { Config } from "./config.js";
+import { ToolResult, readValidatedFile } from "./handlers.js";
+import { extensionNotAllowedResult, pathDeniedResult } from "./errors.js";
+import { t } from "./messages.js";
+import { walkFiles } from "./glob.js";
+import { refreshPolicy, relativeToRoot } from "./policy.js";
+import { resolvePath, validateFileExtension } from "./validation.js";
+
+/** resources/list の1ページあたりの件数 */
+const PAGE_SIZE = 500;
+
+/** 購読中のファイルを確認する間隔（ミリ秒） */
+const WATCH_INTERVAL = 1000;
+
+// 拡張子ごとの MIME タイプ（一覧にない拡張子は text/plain）
+const MIME_TYPES: Record<string, string> = {
+  ".md": "text/markdown",
+  ".markdown": "text/markdown",
+  ".txt": "text/plain",
+  ".log": "text/plain",
+  ".json": "application/json",
+  ".jsonl": "application/jsonl",
+  ".yaml": "application/yaml",
+  ".yml": "application/yaml",
+  ".csv": "text/csv",
+  ".tsv": "text/tab-separated-values",
+  ".xml": "application/xml",
+  ".html": "text/html",
+  ".htm": "text/html",
+  ".css": "text/css",
+  ".toml": "application/toml",
+};
+
+export interface FileResource {
+  uri: string;
+  /** 許可ルートからの相対パス */
+  name: string;
+  mimeType: string;
+}
+
+/**
+ * ファイルの MIME タイプを拡張子から判定します
+ */
+export function mimeTypeOf(filePath: string): string {
+  return MIME_TYPES[path.extname(filePath).toLowerCase()] ?? "text/plain";
+}
+
+/**
+ * file:// URI をファイルパスに変換します（file:// 以外や不正な URI は InvalidParams）
+ */
+function pathFromUri(uri: string): string {
+  try {
+    if (new URL(uri).protocol === "file:") {
+      return fileURLToPath(uri);
+    }
+  } catch {
+    // 下で InvalidParams にする
+  }
+  throw new McpError(ErrorCode.InvalidParams, t("invalidResourceUri", { uri }));
+}
+
+/**
+ * ツールのエラー結果を JSON-RPC のエラーに変換します（リソースの要求はツール結果ではなくエラー応答で失敗を返す）
+ */
+function invalidParams(result: ToolResult): McpError {
+  return new McpError(ErrorCode.InvalidParams, result.content[0].text);
+}
+
+/**
+ * 許可ルート内のファイルをリソースとして一覧します
+ *
+ * list_files と同じく .gitignore に一致するファイルと不可視のパスは含めません。
+ * 一覧は URI 順で、カーソルは前のページの最後の URI です（ページの間にファイルが増減しても、
+ * 取得済みのファイルが繰り返されたり未取得のファイルが飛ばされたりしない）。
+ *
+ * @param cursor - 前のページの nextCursor（省略時は先頭から）
+ */
+export async function listResources(
+  config: Config,
+  cursor?: string
+): Promise<{ resources: FileResource[]; nextCursor?: string }> {
+  console.error(`resources/list${cursor ? `: ${cursor}` : ""}`);
+
+  if (cursor !== undefined && !cursor.startsWith("file://")) {
+    throw new McpError(ErrorCode.InvalidParams, t("invalidResourceCursor", { cursor }));
+  }
+
+  await refreshPolicy(config);
+  const resources: FileResource[] = [];
+  for (const root of config.allowedRoots) {
+    const { files } = await walkFiles(root, {
+      respectGitignore: true,
+      filter: absolutePath => validateFileExtension(absolutePath, config),
+    });
+    for (const file of files) {
+      const uri = pathToFileURL(file.absolutePath).href;
+      if (cursor !== undefined && uri <= cursor) {
+        continue;
+      }
+      resources.push({
+        uri,
+        name: relativeToRoot(file.absolutePath, config) || file.relativePath,
+        mimeType: mimeTypeOf(file.absolutePath),
+      });
+    }
+  }
+
+  // 重なった許可ルートで同じファイルが2回見つかった場合は1つにする
+  const page = [...new Map(resources.map(resource => [resource.uri, resource])).values()]
+    .sort((a, b) => (a.uri < b.uri ? -1 : a.uri > b.uri ? 1 : 0))
+    .slice(0, PAGE_SIZE + 1);
+  return {
+    resources: page.slice(0, PAGE_SIZE),
+    ...(page.length > PAGE_SIZE ? { nextCursor: page[PAGE_SIZE - 1].uri } : {}),
+  };
+}
+
+/**
+ * リソースの内容を読み取ります（検証エラーはそのメッセージの InvalidParams）
+ */
+export async function readResource(
+  uri: string,
+  config: Config
+): Promise<{ contents: Array<{ uri: string; mimeType: string; text: string }> }> {
+  console.error(`resources/read: ${uri}`);
+
+  const file = await readValidatedFile(pathFromUri(uri), config);
+  if (!file.ok) {
+    throw invalidParams(file.result);
+  }
+  return { contents: [{ uri, mimeType: mimeTypeOf(file.resolvedPath), text: file.content }] };
+}
+
+/**
+ * 1つの接続（セッション）のリソース購読
+ */
+export interface ResourceSubscriptions {
+  subscribe(uri: string): Promise<void>;
+  unsubscribe(uri: string): void;
+  /** すべての監視を止める（接続の終了時） */
+  close(): void;
+}
+
+/**
+ * リソース購読を作成します
+ *
+ * 購読中のファイルは fs.watchFile で監視します（アトミックな書き込みでファイルが置き換わっても追跡できるよう、
+ * inode ではなくパスで監視する）。作成・削除も変更として通知します。
+ *
+ * @param config - 設定オブジェクト
+ * @param notify - 変更を通知する関数（notifications/resources/updated を送る）
+ */
+export function createResourceSubscriptions(
+  config: Config,
+  notify: (uri: string) => Promise<void>
+): ResourceSubscriptions {
+  // URI ごとの監視中のパスとリスナー
+  const watchers = new Map<string, { path: string; listener: (current: Stats, previous: Stats) => void }>();
+
+  function unsubscribe(uri: string): void {
+    const watcher = watchers.get(uri);
+    if (watcher) {
+      unwatchFile(watcher.path, watcher.listener);
+      watchers.delete(uri);
+    }
+  }
+
+  return {
+    async subscribe(uri) {
+      console.error(`resources/subscribe: ${uri}`);
+
+      // まだ存在しないファイルも購読できる（作成されたら通知する）
+      const filePath = pathFromUri(uri);
+      const resolvedPath = await resolvePath(filePath, config);
+      if (!resolvedPath) {
+        throw invalidParams(pathDeniedResult(filePath));
+      }
+      if (!validateFileExtension(resolvedPath, config)) {
+        throw invalidParams(extensionNotAllowedResult(resolvedPath, config));
+      }
+      if (watchers.has(uri)) {
+        return;
+      }
+
+      const listener = (current: Stats, previous: Stats) => {
+        if (current.mtimeMs === previous.mtimeMs && current.size === previous.size && current.ino === previous.ino) {
+          return;
+        }
+        notify(uri).catch(error => {
+          console.error(t("resourceNotifyFailed", { uri, reason: error instanceof Error ? error.message : String(error) }));
+        });
+      };
+      watchFile(resolvedPath, { interval: WATCH_INTERVAL, persistent: false }, listener);
+      watchers.set(uri, { path: resolvedPath, listener });
+    },
+
+    unsubscribe(uri) {
+      console.error(`resources/unsubscribe: ${uri}`);
+      unsubscribe(uri);
+    },
+
+    close() {
+      for (const uri of [...watchers.keys()]) {
+        unsubscribe(uri);
+      }
+    },
+  };
+}
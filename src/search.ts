@@ -0,0 +1,144 @@
+/**
+ * @fileoverview ワークスペース内のファイル内容検索（grep相当）
+ * 許可された拡張子のファイルを対象に、正規表現またはリテラル文字列で行単位に検索します。
+ */
+
+import * as fs from "fs/promises";
+import * as path from "path";
+import { Config } from "./config.js";
+import { ToolResult } from "./handlers.js";
+import { errorResult, failureResult, pathDeniedResult } from "./errors.js";
+import { t } from "./messages.js";
+import { walkFiles } from "./glob.js";
+import { decodeText } from "./encoding.js";
+import { resolvePath, validateFileExtension, maxFileSizeFor } from "./validation.js";
+
+export interface SearchOptions {
+  /** true の場合 query を正規表現として扱う */
+  regex?: boolean;
+  /** 検索対象を絞り込む glob パターン */
+  pattern?: string;
+  case_sensitive?: boolean;
+  /** 一致行の前後に表示する行数 */
+  context_lines?: number;
+  /** 全体での一致件数の上限 */
+  max_matches?: number;
+  respect_gitignore?: boolean;
+}
+
+/**
+ * 一致行と前後の文脈を grep 形式（一致行は "行番号:"、文脈は "行番号-"）で整形します
+ */
+function formatFileMatches(lines: string[], matchedLines: number[], contextLines: number): string {
+  const output: string[] = [];
+  const matched = new Set(matchedLines);
+  let lastPrinted = 0;
+  for (const line of matchedLines) {
+    const from = Math.max(1, line - contextLines, lastPrinted + 1);
+    const to = Math.min(lines.length, line + contextLines);
+    if (contextLines > 0 && lastPrinted > 0 && from > lastPrinted + 1) {
+      output.push("  --");
+    }
+    for (let current = from; current <= to; current++) {
+      output.push(`  ${current}${matched.has(current) ? ':' : '-'} ${lines[current - 1]}`);
+    }
+    lastPrinted = Math.max(lastPrinted, to);
+  }
+  return output.join('\n');
+}
+
+export async function handleSearchFiles(
+  query: string,
+  directory: string,
+  config: Config,
+  options?: SearchOptions
+): Promise<ToolResult> {
+  try {
+    console.error(`search_files: ${query} in ${directory}`);
+
+    // バリデーション
+    // ワークスペース基準でパスを解決し、許可ルート外へのアクセスを防止
+    const resolvedPath = await resolvePath(directory, config);
+    if (!resolvedPath) {
+      return pathDeniedResult(directory);
+    }
+
+    const stats = await fs.stat(resolvedPath).catch(() => null);
+    if (!stats?.isDirectory()) {
+      return errorResult("NOT_FOUND", t("directoryNotFound", { path: directory }), { path: directory });
+    }
+
+    if (typeof query !== "string" || query.length === 0) {
+      return errorResult("INVALID_ARGUMENT", t("emptyQuery"));
+    }
+
+    let matcher: RegExp;
+    try {
+      const source = options?.regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      matcher = new RegExp(source, options?.case_sensitive ? "" : "i");
+    } catch (error) {
+      return errorResult("INVALID_ARGUMENT", t("invalidRegex", { reason: error instanceof Error ? error.message : t("unknownError") }), { query });
+    }
+
+    const contextLines = Math.max(0, options?.context_lines ?? 0);
+    const maxMatches = options?.max_matches ?? 200;
+    const { files } = await walkFiles(resolvedPath, {
+      pattern: options?.pattern,
+      respectGitignore: options?.respect_gitignore ?? true,
+      filter: absolutePath => validateFileExtension(absolutePath, config),
+    });
+
+    const sections: string[] = [];
+    let totalMatches = 0;
+    let skippedLarge = 0;
+    let truncated = false;
+    for (const file of files) {
+      if (totalMatches >= maxMatches) {
+        truncated = true;
+        break;
+      }
+
+      // サイズ制限を超えるファイルは読み込まずにスキップ
+      const fileStats = await fs.stat(file.absolutePath);
+      if (fileStats.size > maxFileSizeFor(file.absolutePath, config)) {
+        skippedLarge++;
+        continue;
+      }
+
+      // Shift_JIS・CRLF のファイルも行単位で正しく照合できるよう形式を判定して読む
+      const lines = decodeText(await fs.readFile(file.absolutePath)).text.split('\n');
+      const matchedLines: number[] = [];
+      for (let i = 0; i < lines.length; i++) {
+        if (matcher.test(lines[i])) {
+          if (totalMatches >= maxMatches) {
+            truncated = true;
+            break;
+          }
+          matchedLines.push(i + 1);
+          totalMatches++;
+        }
+      }
+
+      if (matchedLines.length > 0) {
+        // read_file の path にそのまま渡せるよう、指定ディレクトリを前置する
+        const displayPath = path.isAbsolute(directory)
+          ? path.join(resolvedPath, file.relativePath)
+          : path.posix.join(directory.split(path.sep).join('/'), file.relativePath);
+        sections.push(`${displayPath}（${matchedLines.length} 件）\n${formatFileMatches(lines, matchedLines, contextLines)}`);
+      }
+    }
+
+    const notes = [
+      truncated ? `上限 ${maxMatches} 件で打ち切り` : null,
+      skippedLarge > 0 ? `サイズ制限超過で ${skippedLarge} ファイルをスキップ` : null,
+    ].filter(Boolean).join('、');
+    const header = `=== 検索: "${query}" / ${sections.length} ファイル・${totalMatches} 件${notes ? `（${notes}）` : ''} ===`;
+    return {
+      content: [
+        { type: "text", text: sections.length > 0 ? `${header}\n\n${sections.join('\n\n')}` : `${header}\n一致する行はありません。` }
+      ]
+    };
+  } catch (error) {
+    return failureResult("search", error, { path: directory });
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * @fileoverview MCP サーバーの作成
+ * ツールとリソースの要求ハンドラを登録したサーバーを作成します。
+ * stdio では1つ、HTTP/SSE では接続（セッション）ごとに1つ作成し、クライアント情報やリソース購読はサーバーごとに持ちます。
+ */
+
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+
+import { Config } from "./config.js";
+import { tools, callTool } from "./tools.js";
+import { listResources, readResource, createResourceSubscriptions } from "./resources.js";
+
+/**
+ * MCPサーバーのインスタンスを作成します
+ */
+export function createServer(config: Config): Server {
+  const server = new Server({
+    name: "mcp-file-editor",
+    version: "1.0.0",
+  }, {
+    capabilities: {
+      tools: {},
+      resources: { subscribe: true },
+    },
+  });
+
+  // ツール一覧の処理
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return { tools };
+  });
+
+  // ツール実行の処理（引数はツールごとのスキーマで検証してから実行）
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+    return await callTool(name, args, config, server.getClientVersion()) as any;
+  });
+
+  // リソース（許可されたファイル）の一覧・読み取り
+  server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+    return await listResources(config, request.params?.cursor);
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    return await readResource(request.params.uri, config);
+  });
+
+  // 購読中のファイルがディスク上で変更されたら notifications/resources/updated を送る
+  const subscriptions = createResourceSubscriptions(config, uri => server.sendResourceUpdated({ uri }));
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    await subscriptions.subscribe(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.unsubscribe(request.params.uri);
+    return {};
+  });
+
+  server.onclose = () => subscriptions.close();
+
+  return server;
+}
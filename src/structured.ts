@@ -0,0 +1,588 @@
+/**
+ * @fileoverview JSON / YAML ファイルの構造化編集
+ * JSON Pointer（"/a/b/0"）またはドット記法（"a.b[0]"）で指定した値の取得・設定・削除を提供します。
+ * JSON は対象の値の範囲だけを書き換えて他の部分を元のテキストのまま残し、YAML はコメントとキー順序を保持したまま書き換えます。
+ */
+
+import * as path from "path";
+import { isDeepStrictEqual } from "util";
+import YAML, { Document } from "yaml";
+import { Config } from "./config.js";
+import { ToolResult, WriteOptions, ModifyResult, modifyFile, readValidatedFile } from "./handlers.js";
+import { OperationError, OperationFailure, errorResult, failureResult, operationFailureOf } from "./errors.js";
+import { JsonNode, parseJsonTree } from "./format.js";
+import { t } from "./messages.js";
+
+type StructuredFormat = "json" | "yaml";
+
+/**
+ * 拡張子から構造化データの形式を判定します
+ */
+export function detectStructuredFormat(filePath: string): StructuredFormat | null {
+  const extension = path.extname(filePath).toLowerCase();
+  if (extension === ".json") return "json";
+  if (extension === ".yaml" || extension === ".yml") return "yaml";
+  return null;
+}
+
+/**
+ * キーパスを要素の配列に変換します
+ *
+ * - "/" で始まる場合は JSON Pointer（RFC 6901、"~1" は "/"、"~0" は "~"）
+ * - それ以外はドット記法。配列要素は "items[0]" または "items.0"、
+ *   ドットを含むキーは `["a.b"]` のように角括弧と引用符で指定
+ * - 空文字列はドキュメント全体
+ *
+ * @example
+ * ```typescript
+ * parseKeyPath("/servers/0/host");     // => ["servers", "0", "host"]
+ * parseKeyPath("servers[0].host");     // => ["servers", "0", "host"]
+ * parseKeyPath('labels["app.kind"]');  // => ["labels", "app.kind"]
+ * ```
+ */
+export function parseKeyPath(keyPath: string): string[] {
+  if (keyPath === "" || keyPath === "/") {
+    return keyPath === "/" ? [""] : [];
+  }
+  if (keyPath.startsWith("/")) {
+    return rejectReservedSegments(keyPath.slice(1).split("/").map(token => token.replace(/~1/g, "/").replace(/~0/g, "~")));
+  }
+
+  const segments: string[] = [];
+  let current = "";
+  let i = 0;
+  while (i < keyPath.length) {
+    const char = keyPath[i];
+    if (char === ".") {
+      if (current !== "") segments.push(current);
+      current = "";
+      i++;
+    } else if (char === "[") {
+      if (current !== "") segments.push(current);
+      current = "";
+      const quote = keyPath[i + 1];
+      if (quote === '"' || quote === "'") {
+        const end = keyPath.indexOf(quote + "]", i + 2);
+        if (end === -1) throw new Error(t("keyPathUnclosed", { key: keyPath }));
+        segments.push(keyPath.slice(i + 2, end));
+        i = end + 2;
+      } else {
+        const end = keyPath.indexOf("]", i + 1);
+        if (end === -1) throw new Error(t("keyPathUnclosed", { key: keyPath }));
+        segments.push(keyPath.slice(i + 1, end).trim());
+        i = end + 1;
+      }
+    } else {
+      current += char;
+      i++;
+    }
+  }
+  if (current !== "") segments.push(current);
+  return rejectReservedSegments(segments);
+}
+
+/** オブジェクトのプロトタイプを辿れてしまうため、キーパスの要素として受け付けない名前 */
+const RESERVED_SEGMENTS = new Set(["__proto__", "constructor", "prototype"]);
+
+function rejectReservedSegments(segments: string[]): string[] {
+  const reserved = segments.find(segment => RESERVED_SEGMENTS.has(segment));
+  if (reserved !== undefined) throw new Error(t("keyPathReserved", { segment: reserved }));
+  return segments;
+}
+
+/**
+ * 配列のインデックスとして解釈します（"-" は末尾への追加位置）
+ */
+function toArrayIndex(segment: string, length: number, allowAppend: boolean): number | null {
+  if (allowAppend && segment === "-") return length;
+  if (!/^(0|[1-9]\d*)$/.test(segment)) return null;
+  const index = parseInt(segment, 10);
+  return index < length || (allowAppend && index === length) ? index : null;
+}
+
+function isContainer(value: unknown): value is Record<string, unknown> | unknown[] {
+  return typeof value === "object" && value !== null;
+}
+
+/**
+ * 値の中からキーパスの要素を辿って取得します
+ */
+function getAt(root: unknown, segments: string[]): { found: true; value: unknown } | { found: false; at: string } {
+  let current = root;
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+    if (Array.isArray(current)) {
+      const index = toArrayIndex(segment, current.length, false);
+      if (index === null) return { found: false, at: segments.slice(0, i + 1).join(".") };
+      current = current[index];
+    } else if (isContainer(current) && Object.prototype.hasOwnProperty.call(current, segment)) {
+      current = (current as Record<string, unknown>)[segment];
+    } else {
+      return { found: false, at: segments.slice(0, i + 1).join(".") };
+    }
+  }
+  return { found: true, value: current };
+}
+
+/**
+ * 範囲外の配列インデックスに対する例外を作成します
+ */
+function indexOutOfRangeError(index: string, at: string): OperationError {
+  return new OperationError("INVALID_ARGUMENT", t("indexOutOfRange", { index, at }), { index, at });
+}
+
+/**
+ * 存在しないキーに対する例外を作成します（at は最初に見つからなかった位置）
+ */
+function keyNotFoundError(segments: string[], at: string): OperationError {
+  return new OperationError("NOT_FOUND", t("keyNotFound", { key: segments.join("."), at }), { missing: at });
+}
+
+/**
+ * オブジェクト自身のプロパティとして値を設定します（セッターやプロトタイプを経由しない）
+ */
+function defineValue(object: Record<string, unknown>, key: string, value: unknown): void {
+  Object.defineProperty(object, key, { value, writable: true, enumerable: true, configurable: true });
+}
+
+/**
+ * JSON の値にキーパスで値を設定します（途中のオブジェクトは必要に応じて作成）
+ *
+ * @returns 設定後のルート値
+ */
+function setAt(root: unknown, segments: string[], value: unknown): unknown {
+  if (segments.length === 0) return value;
+
+  const parentSegments = segments.slice(0, -1);
+  let current: unknown = root;
+  for (let i = 0; i < parentSegments.length; i++) {
+    const segment = parentSegments[i];
+    if (Array.isArray(current)) {
+      const index = toArrayIndex(segment, current.length, false);
+      if (index === null) throw indexOutOfRangeError(segment, segments.slice(0, i + 1).join("."));
+      if (!isContainer(current[index])) current[index] = {};
+      current = current[index];
+    } else if (isContainer(current)) {
+      const object = current as Record<string, unknown>;
+      if (!Object.prototype.hasOwnProperty.call(object, segment) || !isContainer(object[segment])) {
+        defineValue(object, segment, {});
+      }
+      current = object[segment];
+    }
+  }
+
+  const last = segments[segments.length - 1];
+  if (Array.isArray(current)) {
+    const index = toArrayIndex(last, current.length, true);
+    if (index === null) {
+      throw new OperationError("INVALID_ARGUMENT", t("appendIndexOutOfRange", { index: last }), { index: last, at: segments.join(".") });
+    }
+    current[index] = value;
+  } else if (isContainer(current)) {
+    defineValue(current as Record<string, unknown>, last, value);
+  } else {
+    throw new OperationError("INVALID_ARGUMENT", t("notContainer", { key: parentSegments.join(".") }), { at: parentSegments.join(".") });
+  }
+  return root;
+}
+
+/**
+ * JSON の値からキーパスの要素を削除します
+ */
+function deleteAt(root: unknown, segments: string[]): void {
+  const parent = getAt(root, segments.slice(0, -1));
+  const last = segments[segments.length - 1];
+  if (parent.found && Array.isArray(parent.value)) {
+    const index = toArrayIndex(last, parent.value.length, false);
+    if (index !== null) {
+      parent.value.splice(index, 1);
+      return;
+    }
+  } else if (parent.found && isContainer(parent.value) && Object.prototype.hasOwnProperty.call(parent.value, last)) {
+    delete (parent.value as Record<string, unknown>)[last];
+    return;
+  }
+  throw keyNotFoundError(segments, segments.join("."));
+}
+
+/**
+ * JSON テキストのインデント（スペース数またはタブ）を検出します。1行のJSONは0を返します
+ */
+function detectJsonIndent(content: string): string | number {
+  const match = /\n([ \t]+)\S/.exec(content);
+  if (!match) return 0;
+  return match[1].startsWith("\t") ? "\t" : match[1].length;
+}
+
+/**
+ * 指定位置を含む行の先頭の空白を返します
+ */
+function lineIndent(content: string, offset: number): string {
+  const lineStart = content.lastIndexOf("\n", offset - 1) + 1;
+  return (/^[ \t]*/.exec(content.slice(lineStart)) as RegExpExecArray)[0];
+}
+
+/**
+ * 残りのキーパスの分だけオブジェクトで包んだ値を作ります（途中のオブジェクトを作成する場合）
+ */
+function nestValue(segments: string[], value: unknown): unknown {
+  return segments.reduceRight((inner, segment) => Object.fromEntries([[segment, inner]]), value);
+}
+
+/**
+ * JSON テキストの中でキーパスが指す範囲だけを書き換えます
+ *
+ * 書き換える値・要素以外は元のテキストのまま残すため、数値の表記や1行で書かれた配列なども変わりません。
+ * キーパスは setAt / deleteAt で検証済みであることを前提とします。
+ */
+function editJsonText(
+  content: string,
+  segments: string[],
+  operation: { type: "set"; value: unknown } | { type: "delete" }
+): string {
+  const unit = detectJsonIndent(content);
+  const eol = content.includes("\r\n") ? "\r\n" : "\n";
+  const splice = (start: number, end: number, text: string) => content.slice(0, start) + text + content.slice(end);
+  // 1行で書かれたコンテナの中では1行で、それ以外では周囲のインデントに合わせて値を書く
+  const serialize = (value: unknown, baseIndent: string, inline: boolean) =>
+    inline ? JSON.stringify(value) : JSON.stringify(value, null, unit).replace(/\n/g, eol + baseIndent);
+  const isInline = (node: JsonNode) => !content.slice(node.start, node.end).includes("\n");
+  const membersOf = (node: JsonNode) => node.type === "object"
+    ? node.entries.map(entry => ({ start: entry.start, end: entry.value.end }))
+    : node.type === "array" ? node.items.map(item => ({ start: item.start, end: item.end })) : [];
+
+  if (content.trim() === "") {
+    const value = operation.type === "set" ? operation.value : null;
+    return JSON.stringify(value, null, unit) + (content.endsWith("\n") ? eol : "");
+  }
+  const root = parseJsonTree(content);
+  if (segments.length === 0) {
+    const value = operation.type === "set" ? operation.value : null;
+    return splice(root.start, root.end, serialize(value, "", false));
+  }
+
+  // コンテナの末尾に要素を追加する（区切りと改行は既存の要素に合わせる）
+  const insertMember = (container: JsonNode, key: string | null, value: unknown) => {
+    const members = membersOf(container);
+    const inline = isInline(container);
+    if (members.length === 0) {
+      const containerIndent = lineIndent(content, container.start);
+      const memberIndent = containerIndent + (typeof unit === "number" ? " ".repeat(unit) : unit);
+      const colon = unit === 0 ? ":" : ": ";
+      const member = (key === null ? "" : JSON.stringify(key) + colon) + serialize(value, memberIndent, unit === 0);
+      const inner = unit === 0 ? member : eol + memberIndent + member + eol + containerIndent;
+      return splice(container.start + 1, container.end - 1, inner);
+    }
+    const first = members[0];
+    const last = members[members.length - 1];
+    const lead = content.slice(container.start + 1, first.start);
+    const separator = members.length >= 2
+      ? content.slice(first.end, members[1].start)
+      : "," + (lead.includes("\n") ? lead : unit === 0 ? "" : " ");
+    let colon = unit === 0 ? ":" : ": ";
+    if (container.type === "object") {
+      const entry = container.entries[0];
+      colon = content.slice(entry.start + entry.key.length, entry.value.start);
+    }
+    const member = (key === null ? "" : JSON.stringify(key) + colon) + serialize(value, lineIndent(content, first.start), inline);
+    return splice(last.end, last.end, separator + member);
+  };
+
+  // コンテナから要素を取り除く（前後の区切りもまとめて取り除く）
+  const removeMember = (container: JsonNode, index: number) => {
+    const members = membersOf(container);
+    if (members.length === 1) {
+      return splice(container.start + 1, container.end - 1, "");
+    }
+    return index < members.length - 1
+      ? splice(members[index].start, members[index + 1].start, "")
+      : splice(members[index - 1].end, members[index].end, "");
+  };
+
+  const replaceValue = (node: JsonNode, container: JsonNode, value: unknown) =>
+    splice(node.start, node.end, serialize(value, lineIndent(content, node.start), isInline(container)));
+
+  let node = root;
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+    const rest = segments.slice(i + 1);
+    const value = operation.type === "set" ? nestValue(rest, operation.value) : undefined;
+    let child: JsonNode | undefined;
+    let index = -1;
+    if (node.type === "array") {
+      index = toArrayIndex(segment, node.items.length, true) as number;
+      child = node.items[index];
+    } else if (node.type === "object") {
+      // 重複したキーは JSON.parse と同じく最後のものを対象にする
+      for (let j = node.entries.length - 1; j >= 0 && index < 0; j--) {
+        if (JSON.parse(node.entries[j].key) === segment) index = j;
+      }
+      child = node.entries[index]?.value;
+    }
+    if (operation.type === "delete" && rest.length === 0) {
+      return removeMember(node, index);
+    }
+    if (child === undefined) {
+      return insertMember(node, node.type === "object" ? segment : null, value);
+    }
+    if (rest.length === 0 || child.type === "scalar") {
+      return replaceValue(child, node, value);
+    }
+    node = child;
+  }
+  return content;
+}
+
+/**
+ * YAML のインデント幅を検出します（既定は2）
+ */
+function detectYamlIndent(content: string): number {
+  const match = /^[^\s#-][^\n]*:\s*\n( +)\S/m.exec(content);
+  return match ? match[1].length : 2;
+}
+
+/**
+ * YAML ドキュメントのキーパスを、配列（シーケンス）位置では数値に変換します
+ */
+function toYamlPath(doc: Document, segments: string[], allowAppend: boolean): Array<string | number> {
+  const result: Array<string | number> = [];
+  for (let i = 0; i < segments.length; i++) {
+    const node = result.length === 0 ? doc.contents : doc.getIn(result, true);
+    if (YAML.isSeq(node)) {
+      const index = toArrayIndex(segments[i], node.items.length, allowAppend && i === segments.length - 1);
+      if (index === null) throw indexOutOfRangeError(segments[i], segments.slice(0, i + 1).join("."));
+      result.push(index);
+    } else {
+      result.push(segments[i]);
+    }
+  }
+  return result;
+}
+
+/**
+ * 書き戻すと元の表記が変わってしまう数値を探します（YAML は数値を値から書き直すため、精度や表記が失われる）
+ *
+ * @returns 該当する数値の元の表記。すべて元のまま書き戻せる場合はnull
+ */
+function findLossyYamlNumber(doc: Document): string | null {
+  let lossy: string | null = null;
+  YAML.visit(doc, {
+    Scalar(_key, node) {
+      if (typeof node.value !== "number" || node.source === undefined) {
+        return;
+      }
+      if (new Document(node).toString({ lineWidth: 0 }).trimEnd() !== node.source) {
+        lossy = node.source;
+        return YAML.visit.BREAK;
+      }
+    }
+  });
+  return lossy;
+}
+
+/**
+ * 構造化データの内容を解析し、JSON値として返します
+ */
+function parseStructured(content: string, format: StructuredFormat): { ok: true; value: unknown; doc?: Document } | OperationFailure {
+  if (format === "json") {
+    try {
+      return { ok: true, value: content.trim() === "" ? null : JSON.parse(content) };
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : t("unknownError");
+      return { ok: false, code: "OPERATION_FAILED", message: t("structuredParseFailed", { format: "JSON", reason }), details: { format } };
+    }
+  }
+  const docs = YAML.parseAllDocuments(content);
+  if (!Array.isArray(docs) || docs.length > 1) {
+    return { ok: false, code: "OPERATION_FAILED", message: t("yamlMultiDocument"), details: { format } };
+  }
+  const doc = docs[0] ?? new Document();
+  if (doc.errors.length > 0) {
+    const reason = doc.errors[0].message;
+    return { ok: false, code: "OPERATION_FAILED", message: t("structuredParseFailed", { format: "YAML", reason }), details: { format } };
+  }
+  return { ok: true, value: doc.toJS(), doc };
+}
+
+/**
+ * 値を表示用に短く整形します
+ */
+function previewValue(value: unknown): string {
+  const text = JSON.stringify(value);
+  return text.length > 200 ? text.slice(0, 200) + "…" : text;
+}
+
+/**
+ * 構造化データを編集し、妥当性を確認したうえで新しい内容を返します
+ */
+function editStructured(
+  content: string,
+  format: StructuredFormat,
+  segments: string[],
+  operation: { type: "set"; value: unknown } | { type: "delete" }
+): { ok: true; content: string; previous: { found: boolean; value?: unknown } } | OperationFailure {
+  const parsed = parseStructured(content, format);
+  if (!parsed.ok) return parsed;
+  const previous = getAt(parsed.value, segments);
+  if (operation.type === "delete" && !previous.found) {
+    return operationFailureOf(keyNotFoundError(segments, previous.at));
+  }
+  const eol = content.includes("\r\n") ? "\r\n" : "\n";
+
+  try {
+    let output: string;
+    if (format === "json") {
+      const expected = operation.type === "set"
+        ? setAt(parsed.value, segments, operation.value)
+        : (deleteAt(parsed.value, segments), parsed.value);
+      output = editJsonText(content, segments, operation);
+      // 書き換えた結果が想定した値と一致することを確認する
+      if (!isDeepStrictEqual(JSON.parse(output), expected)) {
+        throw new OperationError("OPERATION_FAILED", t("jsonInvalidAfterEdit"));
+      }
+    } else {
+      const doc = parsed.doc as Document;
+      if (operation.type === "set") {
+        if (segments.length === 0) {
+          doc.contents = doc.createNode(operation.value) as typeof doc.contents;
+        } else {
+          doc.setIn(toYamlPath(doc, segments, true), doc.createNode(operation.value));
+        }
+      } else {
+        doc.deleteIn(toYamlPath(doc, segments, false));
+      }
+      const lossy = findLossyYamlNumber(doc);
+      if (lossy !== null) {
+        throw new OperationError("OPERATION_FAILED", t("numberNotPreserved", { value: lossy }), { value: lossy });
+      }
+      output = doc.toString({ indent: detectYamlIndent(content), lineWidth: 0, flowCollectionPadding: false }).replace(/\n/g, eol);
+      // 書き込み後も正しく読めることを確認する
+      const check = YAML.parseDocument(output);
+      if (check.errors.length > 0) {
+        throw new OperationError("OPERATION_FAILED", t("yamlInvalidAfterEdit", { reason: check.errors[0].message }));
+      }
+    }
+    return { ok: true, content: output, previous: previous.found ? { found: true, value: previous.value } : { found: false } };
+  } catch (error) {
+    return operationFailureOf(error);
+  }
+}
+
+function unsupportedFormatResult(filePath: string): ToolResult {
+  return errorResult("INVALID_ARGUMENT", t("notStructured", { path: filePath }), { path: filePath });
+}
+
+function invalidKeyPathResult(error: unknown): ToolResult {
+  return errorResult("INVALID_ARGUMENT", t("invalidKeyPath", { reason: error instanceof Error ? error.message : t("unknownError") }));
+}
+
+export async function handleGetValue(filePath: string, keyPath: string, config: Config): Promise<ToolResult> {
+  try {
+    console.error(`get_value: ${filePath} (${keyPath})`);
+
+    const format = detectStructuredFormat(filePath);
+    if (!format) {
+      return unsupportedFormatResult(filePath);
+    }
+    let segments: string[];
+    try {
+      segments = parseKeyPath(keyPath ?? "");
+    } catch (error) {
+      return invalidKeyPathResult(error);
+    }
+
+    const file = await readValidatedFile(filePath, config);
+    if (!file.ok) {
+      return file.result;
+    }
+    const parsed = parseStructured(file.content, format);
+    if (!parsed.ok) {
+      return errorResult(parsed.code, parsed.message, { path: filePath, ...parsed.details });
+    }
+
+    const found = getAt(parsed.value, segments);
+    if (!found.found) {
+      return errorResult("NOT_FOUND", t("keyNotFound", { key: keyPath, at: found.at }), { path: filePath, key: keyPath, missing: found.at });
+    }
+    return {
+      content: [
+        { type: "text", text: `=== ファイル: ${filePath} / パス: ${keyPath || '(ルート)'} ===\n\n${JSON.stringify(found.value, null, 2)}` },
+        { type: "text", text: `content_hash: ${file.hash}` }
+      ]
+    };
+  } catch (error) {
+    return failureResult("getValue", error, { path: filePath });
+  }
+}
+
+export async function handleSetValue(
+  filePath: string,
+  keyPath: string,
+  value: unknown,
+  config: Config,
+  options?: WriteOptions
+): Promise<ToolResult> {
+  console.error(`set_value: ${filePath} (${keyPath})`);
+
+  const format = detectStructuredFormat(filePath);
+  if (!format) {
+    return unsupportedFormatResult(filePath);
+  }
+  if (value === undefined) {
+    return errorResult("INVALID_ARGUMENT", t("valueRequired"), { path: filePath });
+  }
+  let segments: string[];
+  try {
+    segments = parseKeyPath(keyPath ?? "");
+  } catch (error) {
+    return invalidKeyPathResult(error);
+  }
+
+  return modifyFile("set_value", filePath, config, options, (content): ModifyResult => {
+    const result = editStructured(content, format, segments, { type: "set", value });
+    if (!result.ok) {
+      return { ...result, details: { key: keyPath, ...result.details } };
+    }
+    const previous = result.previous.found ? `（旧値: ${previewValue(result.previous.value)}）` : "（新規追加）";
+    return {
+      ok: true,
+      content: result.content,
+      message: `成功: ファイル '${filePath}' の '${keyPath || '(ルート)'}' に ${previewValue(value)} を設定しました${previous}。`
+    };
+  });
+}
+
+export async function handleDeleteValue(
+  filePath: string,
+  keyPath: string,
+  config: Config,
+  options?: WriteOptions
+): Promise<ToolResult> {
+  console.error(`delete_value: ${filePath} (${keyPath})`);
+
+  const format = detectStructuredFormat(filePath);
+  if (!format) {
+    return unsupportedFormatResult(filePath);
+  }
+  let segments: string[];
+  try {
+    segments = parseKeyPath(keyPath ?? "");
+  } catch (error) {
+    return invalidKeyPathResult(error);
+  }
+  if (segments.length === 0) {
+    return errorResult("INVALID_ARGUMENT", t("cannotDeleteRoot"), { path: filePath });
+  }
+
+  return modifyFile("delete_value", filePath, config, options, (content): ModifyResult => {
+    const result = editStructured(content, format, segments, { type: "delete" });
+    if (!result.ok) {
+      return { ...result, details: { key: keyPath, ...result.details } };
+    }
+    return {
+      ok: true,
+      content: result.content,
+      message: `成功: ファイル '${filePath}' から '${keyPath}' を削除しました（旧値: ${previewValue(result.previous.value)}）。`
+    };
+  });
+}
@@ -0,0 +1,404 @@
+/**
+ * @fileoverview 書き込み前の構文チェック
+ * - JSON・YAML・CSV・Markdown の内容を検証し、行・列付きの診断を返す
+ * - 書き込み系ツールは書き込み前に checkSyntax で検証し、設定（SYNTAX_CHECK）に応じて拒否または警告する
+ * - validate_file でディスク上のファイルを同じ基準で検証する
+ */
+
+import * as fs from "fs/promises";
+import * as path from "path";
+import YAML from "yaml";
+import { Config } from "./config.js";
+import { ToolResult, readValidatedFile } from "./handlers.js";
+import { errorResult, failureResult } from "./errors.js";
+import { t } from "./messages.js";
+import { detectDelimiter } from "./csv.js";
+import { isTableStart, splitTableRow } from "./markdown.js";
+import { decodeText } from "./encoding.js";
+import { checkFileSize } from "./validation.js";
+
+export type SyntaxFormat = "json" | "yaml" | "csv" | "markdown";
+
+/**
+ * 構文チェックの診断
+ */
+export interface Diagnostic {
+  /** 行番号（1から開始） */
+  line: number;
+  /** 列番号（1から開始） */
+  column: number;
+  /** error は書き込みを拒否する対象、warning は報告のみ */
+  severity: "error" | "warning";
+  message: string;
+}
+
+/**
+ * 書き込み前の構文チェックの結果（ok の場合も警告があれば warning に報告用のテキストが入る）
+ */
+export type SyntaxCheck =
+  | { ok: true; warning: string }
+  | { ok: false; message: string; diagnostics: Diagnostic[] };
+
+const FORMATS: Record<string, SyntaxFormat> = {
+  ".json": "json",
+  ".yaml": "yaml",
+  ".yml": "yaml",
+  ".csv": "csv",
+  ".md": "markdown",
+  ".markdown": "markdown",
+};
+
+export const FORMAT_LABELS: Record<SyntaxFormat, string> = {
+  json: "JSON",
+  yaml: "YAML",
+  csv: "CSV",
+  markdown: "Markdown",
+};
+
+/**
+ * 拡張子から構文チェックの形式を判定します（対象外の拡張子はnull）
+ */
+export function syntaxFormatOf(filePath: string): SyntaxFormat | null {
+  return FORMATS[path.extname(filePath).toLowerCase()] ?? null;
+}
+
+/**
+ * 文字位置（0から開始）を行・列（1から開始）に変換します
+ */
+function positionOf(content: string, offset: number): { line: number; column: number } {
+  const before = content.slice(0, Math.min(offset, content.length));
+  const lineStart = before.lastIndexOf("\n") + 1;
+  return { line: before.split("\n").length, column: before.length - lineStart + 1 };
+}
+
+function validateJson(content: string): Diagnostic[] {
+  try {
+    JSON.parse(content);
+    return [];
+  } catch (error) {
+    // V8 のメッセージに含まれる位置（"at position N" または "(line N column M)"）を行・列にする
+    const message = error instanceof Error ? error.message : String(error);
+    const lineColumn = /\(line (\d+) column (\d+)\)/.exec(message);
+    const offset = /at position (\d+)/.exec(message);
+    const position = lineColumn
+      ? { line: Number(lineColumn[1]), column: Number(lineColumn[2]) }
+      : positionOf(content, offset ? Number(offset[1]) : content.length);
+    const text = message.replace(/\s*\(line \d+ column \d+\)/, "").replace(/\s*(in JSON )?at position \d+.*$/, "");
+    return [{ ...position, severity: "error", message: text }];
+  }
+}
+
+/**
+ * YAML を検証します（複数ドキュメント可。lineOffset はフロントマターなど埋め込み位置の補正）
+ */
+function validateYaml(content: string, lineOffset = 0): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  for (const document of YAML.parseAllDocuments(content, { prettyErrors: true })) {
+    const issues = [
+      ...document.errors.map(issue => ({ issue, severity: "error" as const })),
+      ...document.warnings.map(issue => ({ issue, severity: "warning" as const })),
+    ];
+    for (const { issue, severity } of issues) {
+      // メッセージの位置と抜粋（"at line N, column M:" 以降）は診断の行・列で表す
+      const position = issue.linePos?.[0] ?? { line: 1, col: 1 };
+      diagnostics.push({
+        line: position.line + lineOffset,
+        column: position.col,
+        severity,
+        message: issue.message.split("\n")[0].replace(/ at line \d+, column \d+:?$/, ""),
+      });
+    }
+  }
+  return diagnostics;
+}
+
+/**
+ * CSV を検証します（閉じられていない引用符、引用符の外の引用符、ヘッダーと列数が異なる行）
+ */
+function validateCsv(content: string): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const delimiter = detectDelimiter(content);
+  let line = 1;
+  let column = 1;
+  let recordLine = 1;
+  let fields = 1;
+  let fieldStart = true;
+  let headerFields: number | null = null;
+
+  const endRecord = () => {
+    if (headerFields === null) {
+      headerFields = fields;
+    } else if (fields !== headerFields) {
+      diagnostics.push({
+        line: recordLine,
+        column: 1,
+        severity: "error",
+        message: t("syntaxCsvColumnCount", { expected: headerFields, actual: fields }),
+      });
+    }
+    fields = 1;
+    fieldStart = true;
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (char === '"' && fieldStart) {
+      // 引用符付きフィールド: "" は引用符1文字。フィールド内の改行は同じレコードに含まれる
+      const openLine = line;
+      const openColumn = column;
+      let closed = false;
+      for (i++, column++; i < content.length; i++, column++) {
+        if (content[i] === "\n") {
+          line++;
+          column = 0;
+        } else if (content[i] === '"') {
+          if (content[i + 1] === '"') {
+            i++;
+            column++;
+            continue;
+          }
+          closed = true;
+          break;
+        }
+      }
+      if (!closed) {
+        diagnostics.push({ line: openLine, column: openColumn, severity: "error", message: t("syntaxUnclosedQuote") });
+        return diagnostics;
+      }
+      column++;
+      fieldStart = false;
+      const next = content[i + 1];
+      if (next !== undefined && next !== delimiter && next !== "\n" && next !== "\r") {
+        diagnostics.push({ line, column, severity: "error", message: t("syntaxTextAfterQuote") });
+      }
+    } else if (char === delimiter) {
+      fields++;
+      fieldStart = true;
+      column++;
+    } else if (char === "\r" || char === "\n") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      endRecord();
+      line++;
+      column = 1;
+      recordLine = line;
+    } else {
+      if (char === '"') {
+        diagnostics.push({ line, column, severity: "warning", message: t("syntaxStrayQuote") });
+      }
+      fieldStart = false;
+      column++;
+    }
+  }
+  // 末尾に改行がない最終レコード
+  if (!(fields === 1 && fieldStart && column === 1)) {
+    endRecord();
+  }
+  return diagnostics;
+}
+
+function countTableCells(line: string): number {
+  return splitTableRow(line).length;
+}
+
+/**
+ * Markdown を検証します（フロントマター、閉じられていないコードフェンス、テーブルの列数）
+ */
+function validateMarkdown(content: string): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const lines = content.split("\n");
+  let start = 0;
+
+  // 先頭の YAML フロントマター
+  if (lines[0]?.trimEnd() === "---") {
+    const close = lines.findIndex((line, index) => index > 0 && /^(---|\.\.\.)\s*$/.test(line));
+    if (close < 0) {
+      return [{ line: 1, column: 1, severity: "error", message: t("syntaxFrontMatterUnclosed") }];
+    }
+    diagnostics.push(...validateYaml(lines.slice(1, close).join("\n"), 1));
+    start = close + 1;
+  }
+
+  let fence: { char: string; length: number; line: number } | null = null;
+  let tableColumns: number | null = null;
+  for (let i = start; i < lines.length; i++) {
+    const line = lines[i];
+    const fenceMatch = /^ {0,3}(`{3,}|~{3,})/.exec(line);
+    if (fence) {
+      if (fenceMatch && fenceMatch[1][0] === fence.char && fenceMatch[1].length >= fence.length
+        && line.slice(fenceMatch[0].length).trim() === "") {
+        fence = null;
+      }
+      continue;
+    }
+    if (fenceMatch) {
+      fence = { char: fenceMatch[1][0], length: fenceMatch[1].length, line: i + 1 };
+      tableColumns = null;
+      continue;
+    }
+
+    // ヘッダー行と区切り行でテーブルが始まり、空行または "|" を含まない行で終わる
+    if (tableColumns !== null) {
+      if (line.trim() === "" || !line.includes("|")) {
+        tableColumns = null;
+      } else if (countTableCells(line) !== tableColumns) {
+        diagnostics.push({
+          line: i + 1,
+          column: 1,
+          severity: "warning",
+          message: t("syntaxTableColumnCount", { expected: tableColumns, actual: countTableCells(line) }),
+        });
+      }
+      continue;
+    }
+    const next = lines[i + 1];
+    if (isTableStart(line, next)) {
+      tableColumns = countTableCells(line);
+      if (countTableCells(next) !== tableColumns) {
+        diagnostics.push({
+          line: i + 2,
+          column: 1,
+          severity: "warning",
+          message: t("syntaxTableDelimiterCount", { expected: tableColumns, actual: countTableCells(next) }),
+        });
+      }
+      i++;
+    }
+  }
+
+  if (fence) {
+    diagnostics.push({
+      line: fence.line,
+      column: 1,
+      severity: "error",
+      message: t("syntaxFenceUnclosed", { fence: fence.char.repeat(fence.length) }),
+    });
+  }
+  return diagnostics;
+}
+
+/**
+ * 内容を形式ごとの構文で検証します（空白だけの内容は常に有効）
+ *
+ * @example
+ * ```typescript
+ * validateSyntax('{"a": 1,}', "json");
+ * // => [{ line: 1, column: 9, severity: "error", message: "Expected double-quoted property name" }]
+ * ```
+ */
+export function validateSyntax(content: string, format: SyntaxFormat): Diagnostic[] {
+  if (content.trim() === "") {
+    return [];
+  }
+  switch (format) {
+    case "json":
+      return validateJson(content);
+    case "yaml":
+      return validateYaml(content);
+    case "csv":
+      return validateCsv(content);
+    case "markdown":
+      return validateMarkdown(content);
+  }
+}
+
+/**
+ * 診断を "行:列 エラー|警告: メッセージ" の形式で一覧にします
+ */
+export function formatDiagnostics(diagnostics: Diagnostic[]): string {
+  return diagnostics
+    .map(diagnostic => `  ${diagnostic.line}:${diagnostic.column} ${t("syntaxSeverity", diagnostic)}: ${diagnostic.message}`)
+    .join("\n");
+}
+
+/**
+ * 書き込む内容の構文をチェックします
+ *
+ * SYNTAX_CHECK=reject（既定）では構文エラーがあれば拒否し、warn では警告として報告して書き込みを続けます。
+ * 既存の内容に構文エラーがある場合は、修正途中の編集を妨げないよう reject でも警告にとどめます。
+ *
+ * @param resolvedPath - 書き込み先の（解決済み）パス
+ * @param content - 書き込む内容（テキストまたはエンコード済みのバイト列）
+ * @param config - 設定オブジェクト
+ * @param original - 既存の内容（省略時は必要な場合にディスクから読む。新規作成の場合はnull）
+ */
+export async function checkSyntax(
+  resolvedPath: string,
+  content: string | Buffer,
+  config: Config,
+  original?: string | Buffer | null
+): Promise<SyntaxCheck> {
+  const format = syntaxFormatOf(resolvedPath);
+  if (config.syntaxCheck === "off" || !format) {
+    return { ok: true, warning: "" };
+  }
+
+  const diagnostics = validateSyntax(asText(content), format);
+  if (diagnostics.length === 0) {
+    return { ok: true, warning: "" };
+  }
+  const label = FORMAT_LABELS[format];
+  const hasErrors = diagnostics.some(diagnostic => diagnostic.severity === "error");
+  if (hasErrors && config.syntaxCheck === "reject") {
+    const before = original !== undefined ? original : await readExisting(resolvedPath, config);
+    const alreadyBroken = before !== null && validateSyntax(asText(before), format).some(diagnostic => diagnostic.severity === "error");
+    if (!alreadyBroken) {
+      return { ok: false, message: `${t("syntaxInvalid", { format: label })}\n${formatDiagnostics(diagnostics)}`, diagnostics };
+    }
+    return { ok: true, warning: `\n構文の警告（${label}、既存の内容にも構文エラーがあるため書き込みました）:\n${formatDiagnostics(diagnostics)}` };
+  }
+  return { ok: true, warning: `\n構文の警告（${label}）:\n${formatDiagnostics(diagnostics)}` };
+}
+
+function asText(content: string | Buffer): string {
+  return typeof content === "string" ? content : decodeText(content).text;
+}
+
+/**
+ * 構文チェックで拒否した書き込みのエラー結果を作成します
+ */
+export function syntaxErrorResult(filePath: string, check: { message: string; diagnostics: Diagnostic[] }): ToolResult {
+  return errorResult("SYNTAX_ERROR", check.message, { path: filePath, diagnostics: check.diagnostics });
+}
+
+async function readExisting(resolvedPath: string, config: Config): Promise<Buffer | null> {
+  const exists = await fs.access(resolvedPath).then(() => true).catch(() => false);
+  if (!exists || !await checkFileSize(resolvedPath, config)) {
+    return null;
+  }
+  return fs.readFile(resolvedPath);
+}
+
+export async function handleValidateFile(filePath: string, config: Config): Promise<ToolResult> {
+  try {
+    console.error(`validate_file: ${filePath}`);
+
+    // パス・拡張子・存在・サイズのチェック
+    const file = await readValidatedFile(filePath, config);
+    if (!file.ok) {
+      return file.result;
+    }
+
+    const format = syntaxFormatOf(file.resolvedPath);
+    if (!format) {
+      return {
+        content: [{ type: "text", text: `ファイル '${filePath}' は構文チェックの対象外の形式です（対象: JSON, YAML, CSV, Markdown）。` }]
+      };
+    }
+
+    const label = FORMAT_LABELS[format];
+    const diagnostics = validateSyntax(file.content, format);
+    const errors = diagnostics.filter(diagnostic => diagnostic.severity === "error").length;
+    const warnings = diagnostics.length - errors;
+    const summary = diagnostics.length === 0
+      ? `検証成功: ファイル '${filePath}'（${label}）に問題はありません。`
+      : `検証結果: ファイル '${filePath}'（${label}）にエラー ${errors} 件、警告 ${warnings} 件があります。\n${formatDiagnostics(diagnostics)}`;
+    return {
+      content: [
+        { type: "text", text: summary },
+        { type: "text", text: JSON.stringify({ valid: errors === 0, format, diagnostics }) }
+      ]
+    };
+  } catch (error) {
+    return failureResult("validate", error, { path: filePath });
+  }
+}
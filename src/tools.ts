@@ -1,110 +1,722 @@
-export const tools = [
-  {
-    name: "read_file",
-    description: "ファイルの内容を読み取る（全体または指定行数）",
-    inputSchema: {
-      type: "object",
-      properties: {
-        path: {
-          type: "string",
-          description: "読み取るファイルのパス",
-        },
-        start_line: {
-          type: "number",
-          description: "読み取り開始行番号（1から開始、省略時は1）",
-        },
-        end_line: {
-          type: "number", 
-          description: "読み取り終了行番号（省略時は最終行まで）",
-        },
-        max_lines: {
-          type: "number",
-          description: "最大読み取り行数（省略時は制限なし）",
-        },
-      },
-      required: ["path"],
+/**
+ * @fileoverview ツール定義
+ * 各ツールを名前・説明・zod スキーマ・実行関数の組で一度だけ宣言します。
+ * スキーマから ListTools で公開する inputSchema（JSON Schema）を生成し、
+ * CallTool では同じスキーマで引数を検証・型変換してから実行関数に渡します。
+ */
+
+import { z } from "zod/v4";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { Config } from "./config.js";
+import { t } from "./messages.js";
+import {
+  ToolResult,
+  handleReadFile,
+  handleWriteFile,
+  handleFileExists,
+  handleCreateFile,
+  handleAppendFile,
+  handleGetFileInfo,
+  handleEditFile,
+  handleInsertLines,
+  handleDeleteLines,
+  handleReplaceLines,
+  handleApplyPatch,
+  handleBatchEdit,
+  handleListVersions,
+  handleUndoEdit,
+  handleListFiles,
+  handleMoveFile,
+  handleCopyFile,
+  handleDeleteFile
+} from "./handlers.js";
+import { handleSearchFiles } from "./search.js";
+import {
+  handleMarkdownOutline,
+  handleReadSection,
+  handleReplaceSection,
+  handleInsertAfterSection,
+  handleDeleteSection
+} from "./markdown.js";
+import { handleGetValue, handleSetValue, handleDeleteValue } from "./structured.js";
+import {
+  handleReadCsv,
+  handleUpdateCsvCell,
+  handleAppendCsvRows,
+  handleAddCsvColumn,
+  handleDropCsvColumn
+} from "./csv.js";
+import { handleTailFile } from "./logs.js";
+import { ClientInfo, handleQueryAuditLog, withAudit } from "./audit.js";
+import { handleDiffFiles, previewChanges } from "./diff.js";
+import { handleValidateFile } from "./syntax.js";
+import { handleFormatFile } from "./format.js";
+import { handleConvertFile } from "./convert.js";
+
+interface ToolDefinition<S extends z.ZodObject> {
+  name: string;
+  description: string;
+  /** ファイルを変更するツール（呼び出しを監査ログに記録する） */
+  mutating?: boolean;
+  schema: S;
+  run: (args: z.output<S>, config: Config) => Promise<ToolResult>;
+}
+
+/** 引数を検証した結果（成功した場合は検証済みの引数で実行できる） */
+type PreparedCall =
+  | { success: true; dryRun: boolean; run: (config: Config) => Promise<ToolResult> }
+  | { success: false; issues: z.core.$ZodIssue[] };
+
+/**
+ * 登録済みのツール（ツールごとに異なる引数の型は prepare の中に閉じ込める）
+ */
+interface RegisteredTool {
+  name: string;
+  description: string;
+  mutating?: boolean;
+  /** inputSchema を生成するスキーマ（書き込み系ツールは dry_run を含む） */
+  schema: z.ZodObject;
+  prepare: (args: unknown) => PreparedCall;
+}
+
+/** ListTools で返すツール情報 */
+export interface ToolInfo {
+  name: string;
+  description: string;
+  inputSchema: { type: "object"; [key: string]: unknown };
+}
+
+// 書き込み系ツールには共通の dry_run 引数を追加する
+function defineTool<S extends z.ZodObject>(tool: ToolDefinition<S>): RegisteredTool {
+  const { run, ...info } = tool;
+  return {
+    ...info,
+    schema: tool.mutating ? tool.schema.extend(dryRunSchema.shape) : tool.schema,
+    prepare: args => {
+      const parsed = tool.schema.safeParse(args);
+      const flags = dryRunSchema.safeParse(tool.mutating && typeof args === "object" && args !== null ? args : {});
+      if (!parsed.success || !flags.success) {
+        return { success: false, issues: [...(parsed.error?.issues ?? []), ...(flags.error?.issues ?? [])] };
+      }
+      const data = parsed.data;
+      return { success: true, dryRun: flags.data.dry_run === true, run: config => run(data, config) };
     },
-  },
-  {
+  };
+}
+
+// 数値・真偽値を文字列で渡すクライアントがあるため、検証前に変換する（変換できない値はそのまま検証エラーにする）
+function toNumber(value: unknown): unknown {
+  if (typeof value === "string" && value.trim() !== "" && !Number.isNaN(Number(value))) {
+    return Number(value);
+  }
+  return value;
+}
+
+function toBoolean(value: unknown): unknown {
+  if (value === "true") return true;
+  if (value === "false") return false;
+  return value;
+}
+
+function integer(description: string) {
+  return z.preprocess(toNumber, z.number().int()).describe(description);
+}
+
+function boolean(description: string) {
+  return z.preprocess(toBoolean, z.boolean()).describe(description);
+}
+
+function text(description: string) {
+  return z.string().describe(description);
+}
+
+const dryRunSchema = z.object({
+  dry_run: boolean("true の場合は検証だけを行い、書き込まずに現在の内容との unified diff を返す（省略時はfalse）").optional(),
+});
+
+const expectedHash = (description = "read_file / get_file_info で取得した content_hash（指定時、ディスク上の内容が異なれば競合エラー）") =>
+  text(description).optional();
+
+const encoding = (description = "文字コード（省略時は既存ファイルの文字コード・BOM を維持、指定時は変換）") =>
+  z.enum(["utf-8", "utf-8-bom", "shift_jis"]).describe(description).optional();
+
+const eol = (description = "改行コード（省略時は既存ファイルの主な改行コードを維持、指定時は変換）") =>
+  z.enum(["lf", "crlf"]).describe(description).optional();
+
+const edits = () =>
+  z.array(z.object({
+    old_string: text("置換対象の文字列（前後の文脈を含めて一意にする）"),
+    new_string: text("置換後の文字列"),
+    replace_all: boolean("一致するすべての箇所を置換する（省略時はfalse）").optional(),
+  })).describe("順番に適用する置換操作の配列（1つでも失敗した場合はファイルを変更しない）");
+
+const headingPath = () =>
+  text("見出しパス（例: \"Installation > Linux\"）。親見出しを \" > \" で区切って一意に指定");
+
+const keyPath = () =>
+  text("JSON Pointer（例: \"/servers/0/host\"）またはドット記法（例: \"servers[0].host\"）。空文字列はドキュメント全体");
+
+const definitions: RegisteredTool[] = [
+  defineTool({
+    name: "read_file",
+    description: "ファイルの内容を読み取る（全体・指定行数・バイト範囲、書き込み時の競合検出用に content_hash も返す。サイズ制限を超えるファイルも行・バイト範囲指定で分割して読める）",
+    schema: z.object({
+      path: text("読み取るファイルのパス"),
+      start_line: integer("読み取り開始行番号（1から開始、省略時は1）").optional(),
+      end_line: integer("読み取り終了行番号（省略時は最終行まで）").optional(),
+      max_lines: integer("最大読み取り行数（省略時は制限なし）").optional(),
+      offset: integer("読み取り開始バイト位置（指定時はバイト範囲で読み取る。結果の「次の offset」で続きを読める）").optional(),
+      length: integer("読み取る最大バイト数（省略時・上限は最大ファイルサイズ）").optional(),
+    }),
+    // ファイルの内容を読み取る（拡張子・サイズ制限あり、行数・バイト範囲指定可能）
+    run: (args, config) => handleReadFile(args.path, config, args),
+  }),
+  defineTool({
     name: "write_file",
     description: "ファイルに内容を書き込む（既存ファイルを上書き）",
-    inputSchema: {
-      type: "object",
-      properties: {
-        path: {
-          type: "string",
-          description: "書き込むファイルのパス",
-        },
-        content: {
-          type: "string",
-          description: "書き込む内容",
-        },
-      },
-      required: ["path", "content"],
-    },
-  },
-  {
+    mutating: true,
+    schema: z.object({
+      path: text("書き込むファイルのパス"),
+      content: text("書き込む内容"),
+      expected_hash: expectedHash(),
+      encoding: encoding(),
+      eol: eol(),
+      format: boolean("true の場合は format_file と同じ規則で整形してから書き込む（省略時はfalse）").optional(),
+    }),
+    run: (args, config) => handleWriteFile(args.path, args.content, config, args),
+  }),
+  defineTool({
     name: "file_exists",
     description: "ファイルの存在確認",
-    inputSchema: {
-      type: "object",
-      properties: {
-        path: {
-          type: "string",
-          description: "確認するファイルのパス",
-        },
-      },
-      required: ["path"],
-    },
-  },
-  {
+    schema: z.object({
+      path: text("確認するファイルのパス"),
+    }),
+    run: (args, config) => handleFileExists(args.path, config),
+  }),
+  defineTool({
     name: "create_file",
     description: "新しいファイルを作成する（既存ファイルがある場合はエラー）",
-    inputSchema: {
-      type: "object",
-      properties: {
-        path: {
-          type: "string",
-          description: "作成するファイルのパス",
-        },
-        content: {
-          type: "string",
-          description: "初期内容（デフォルト: 空文字列）",
-        },
-      },
-      required: ["path"],
-    },
-  },
-  {
-    name: "append_file", 
+    mutating: true,
+    schema: z.object({
+      path: text("作成するファイルのパス"),
+      content: text("初期内容（デフォルト: 空文字列）").default(""),
+      encoding: encoding("文字コード（省略時は utf-8）"),
+      eol: eol("改行コード（省略時は lf）"),
+      format: boolean("true の場合は format_file と同じ規則で整形してから書き込む（省略時はfalse）").optional(),
+    }),
+    run: (args, config) => handleCreateFile(args.path, args.content, config, args),
+  }),
+  defineTool({
+    name: "append_file",
     description: "ファイルに内容を追記する",
-    inputSchema: {
-      type: "object",
-      properties: {
-        path: {
-          type: "string",
-          description: "追記するファイルのパス",
-        },
-        content: {
-          type: "string",
-          description: "追記する内容",
-        },
-      },
-      required: ["path", "content"],
-    },
-  },
-  {
+    mutating: true,
+    schema: z.object({
+      path: text("追記するファイルのパス"),
+      content: text("追記する内容"),
+      expected_hash: expectedHash(),
+      encoding: encoding(),
+      eol: eol(),
+      format: boolean("true の場合は追記後のファイル全体を format_file と同じ規則で整形する（省略時はfalse）").optional(),
+    }),
+    run: (args, config) => handleAppendFile(args.path, args.content, config, args),
+  }),
+  defineTool({
     name: "get_file_info",
-    description: "ファイルの詳細情報を取得（サイズ、更新日時など）",
-    inputSchema: {
-      type: "object",
-      properties: {
-        path: {
-          type: "string",
-          description: "情報を取得するファイルのパス",
-        },
-      },
-      required: ["path"],
+    description: "ファイルの詳細情報を取得（サイズ、更新日時、文字コード・改行コード、content_hash など）",
+    schema: z.object({
+      path: text("情報を取得するファイルのパス"),
+    }),
+    run: (args, config) => handleGetFileInfo(args.path, config),
+  }),
+  defineTool({
+    name: "edit_file",
+    description: "ファイルの一部を文字列置換で編集する（old_stringは一意に一致する必要あり、全置換はアトミックに適用）",
+    mutating: true,
+    schema: z.object({
+      path: text("編集するファイルのパス"),
+      edits: edits(),
+      expected_hash: expectedHash(),
+      encoding: encoding(),
+      eol: eol(),
+    }),
+    // 文字列置換でファイルの一部を編集する（一意性チェック・アトミック適用）
+    run: (args, config) => handleEditFile(args.path, args.edits, config, args),
+  }),
+  defineTool({
+    name: "insert_lines",
+    description: "指定行の前または後にテキストを挿入する（挿入後の行番号と前後のスニペットを返す）",
+    mutating: true,
+    schema: z.object({
+      path: text("編集するファイルのパス"),
+      line: integer("基準となる行番号（1から開始、read_fileの行番号と同じ）"),
+      content: text("挿入するテキスト（複数行可、末尾の改行1つは無視）"),
+      position: z.enum(["before", "after"]).describe("指定行の前（before）か後（after）か（省略時はafter）").default("after"),
+      expected_hash: expectedHash(),
+      encoding: encoding(),
+      eol: eol(),
+    }),
+    run: (args, config) => handleInsertLines(args.path, args.line, args.content, args.position, config, args),
+  }),
+  defineTool({
+    name: "delete_lines",
+    description: "指定した行範囲を削除する",
+    mutating: true,
+    schema: z.object({
+      path: text("編集するファイルのパス"),
+      start_line: integer("削除開始行番号（1から開始）"),
+      end_line: integer("削除終了行番号（この行を含む、省略時は開始行のみ）").optional(),
+      expected_hash: expectedHash(),
+      encoding: encoding(),
+      eol: eol(),
+    }),
+    run: (args, config) =>
+      handleDeleteLines(args.path, args.start_line, args.end_line ?? args.start_line, config, args),
+  }),
+  defineTool({
+    name: "replace_lines",
+    description: "指定した行範囲を新しいテキストで置き換える（置換後の行番号と前後のスニペットを返す）",
+    mutating: true,
+    schema: z.object({
+      path: text("編集するファイルのパス"),
+      start_line: integer("置換開始行番号（1から開始）"),
+      end_line: integer("置換終了行番号（この行を含む、省略時は開始行のみ）").optional(),
+      content: text("置き換えるテキスト（複数行可、末尾の改行1つは無視）"),
+      expected_hash: expectedHash(),
+      encoding: encoding(),
+      eol: eol(),
+    }),
+    run: (args, config) =>
+      handleReplaceLines(args.path, args.start_line, args.end_line ?? args.start_line, args.content, config, args),
+  }),
+  defineTool({
+    name: "apply_patch",
+    description: "unified diff 形式のパッチを適用する（複数ファイル対応、1つでも失敗したハンクがあれば何も変更しない）",
+    mutating: true,
+    schema: z.object({
+      patch: text("unified diff 形式のパッチ（diff -u / git diff の出力）"),
+      fuzz: integer("一致しない場合に無視してよい前後のコンテキスト行数（省略時は2）").default(2),
+      expected_hashes: z.record(z.string(), z.string())
+        .describe("パッチ内のパス表記をキー、content_hash を値とするオブジェクト（指定したファイルが変更されていれば競合エラー）")
+        .optional(),
+    }),
+    // unified diff 形式のパッチを適用する（全ハンク成功時のみ書き込み）
+    run: (args, config) => handleApplyPatch(args.patch, args.fuzz, config, args.expected_hashes),
+  }),
+  defineTool({
+    name: "batch_edit",
+    description: "複数ファイルへの操作（write / create / append / replace）をまとめて検証・適用する（1つでも失敗すれば何も変更せず、操作ごとの結果を返す）",
+    mutating: true,
+    schema: z.object({
+      operations: z.array(z.discriminatedUnion("op", [
+        z.object({
+          op: z.literal("write").describe("ファイルを上書き（存在しなければ作成）"),
+          path: text("書き込むファイルのパス"),
+          content: text("書き込む内容"),
+          expected_hash: expectedHash(),
+          encoding: encoding(),
+          eol: eol(),
+        }),
+        z.object({
+          op: z.literal("create").describe("新規ファイルを作成（既に存在する場合は失敗）"),
+          path: text("作成するファイルのパス"),
+          content: text("ファイルの内容"),
+          encoding: encoding("文字コード（省略時はutf-8）"),
+          eol: eol("改行コード（省略時はlf）"),
+        }),
+        z.object({
+          op: z.literal("append").describe("既存ファイルの末尾に追記"),
+          path: text("追記するファイルのパス"),
+          content: text("追記する内容"),
+          expected_hash: expectedHash(),
+          encoding: encoding(),
+          eol: eol(),
+        }),
+        z.object({
+          op: z.literal("replace").describe("edit_file と同じ文字列置換"),
+          path: text("編集するファイルのパス"),
+          edits: edits(),
+          expected_hash: expectedHash(),
+          encoding: encoding(),
+          eol: eol(),
+        }),
+      ])).min(1).describe("順番に適用する操作の配列（同じファイルへの複数の操作は前の操作の結果に対して適用）"),
+    }),
+    // すべての操作を検証してからまとめて書き込む（書き込み中に失敗した場合は適用済みのファイルを元に戻す）
+    run: (args, config) => handleBatchEdit(args.operations, config),
+  }),
+  defineTool({
+    name: "list_versions",
+    description: "書き込み系ツールが保存したファイルの過去バージョン一覧を取得する（新しい順）",
+    schema: z.object({
+      path: text("対象ファイルのパス"),
+    }),
+    run: (args, config) => handleListVersions(args.path, config),
+  }),
+  defineTool({
+    name: "undo_edit",
+    description: "ファイルを直前（または指定）のバージョンに戻す（それ以降の履歴は破棄される）",
+    mutating: true,
+    schema: z.object({
+      path: text("元に戻すファイルのパス"),
+      version: integer("戻す先のバージョンID（list_versionsで確認、省略時は直前のバージョン）").optional(),
+      expected_hash: expectedHash(),
+    }),
+    run: (args, config) => handleUndoEdit(args.path, args.version, config, args),
+  }),
+  defineTool({
+    name: "list_files",
+    description: "ディレクトリ内の許可された拡張子のファイルを再帰的に一覧表示する（globパターン・深さ制限・.gitignore対応）",
+    schema: z.object({
+      directory: text("一覧を取得するディレクトリのパス（省略時はワークスペースルート）").default("."),
+      pattern: text("ファイルを絞り込むglobパターン（例: \"*.md\", \"docs/**/*.{yaml,yml}\"）。\"/\"を含まない場合はファイル名で照合").optional(),
+      max_depth: integer("走査する深さの上限（0は直下のみ、省略時は制限なし）").optional(),
+      respect_gitignore: boolean(".gitignoreに一致するファイルと.gitディレクトリを除外する（省略時はtrue）").optional(),
+      max_results: integer("返すファイル数の上限（省略時は1000）").optional(),
+    }),
+    run: (args, config) => handleListFiles(args.directory, config, args),
+  }),
+  defineTool({
+    name: "move_file",
+    description: "ファイルを移動・名前変更する（移動元・移動先ともに拡張子とパスの制限あり）",
+    mutating: true,
+    schema: z.object({
+      source: text("移動元ファイルのパス"),
+      destination: text("移動先ファイルのパス"),
+      overwrite: boolean("移動先が存在する場合に上書きする（省略時はfalse）").default(false),
+      expected_hash: expectedHash("上書きする移動先の content_hash（指定時、移動先の内容が異なれば競合エラー。移動先が存在しないことを確認する場合は指定しない）"),
+    }),
+    run: (args, config) => handleMoveFile(args.source, args.destination, args.overwrite, config, args),
+  }),
+  defineTool({
+    name: "copy_file",
+    description: "ファイルをコピーする（コピー元・コピー先ともに拡張子とパスの制限あり）",
+    mutating: true,
+    schema: z.object({
+      source: text("コピー元ファイルのパス"),
+      destination: text("コピー先ファイルのパス"),
+      overwrite: boolean("コピー先が存在する場合に上書きする（省略時はfalse）").default(false),
+      expected_hash: expectedHash("上書きするコピー先の content_hash（指定時、コピー先の内容が異なれば競合エラー。コピー先が存在しないことを確認する場合は指定しない）"),
+    }),
+    run: (args, config) => handleCopyFile(args.source, args.destination, args.overwrite, config, args),
+  }),
+  defineTool({
+    name: "delete_file",
+    description: "ファイルを削除する（削除前の内容は履歴に保存され、undo_editで復元可能）",
+    mutating: true,
+    schema: z.object({
+      path: text("削除するファイルのパス"),
+      expected_hash: expectedHash(),
+    }),
+    run: (args, config) => handleDeleteFile(args.path, config, args),
+  }),
+  defineTool({
+    name: "search_files",
+    description: "許可された拡張子のファイルを横断して内容を検索する（行番号はread_fileのstart_lineにそのまま使用可能）",
+    schema: z.object({
+      query: text("検索文字列（regexがtrueの場合は正規表現）"),
+      directory: text("検索するディレクトリのパス（省略時はワークスペースルート）").default("."),
+      pattern: text("検索対象を絞り込むglobパターン（例: \"*.md\", \"logs/**/*.log\"）").optional(),
+      regex: boolean("queryを正規表現として扱う（省略時はfalse）").optional(),
+      case_sensitive: boolean("大文字・小文字を区別する（省略時はfalse）").optional(),
+      context_lines: integer("一致行の前後に表示する行数（省略時は0）").optional(),
+      max_matches: integer("全体での一致件数の上限（省略時は200）").optional(),
+      respect_gitignore: boolean(".gitignoreに一致するファイルを除外する（省略時はtrue）").optional(),
+    }),
+    run: (args, config) => handleSearchFiles(args.query, args.directory, config, args),
+  }),
+  defineTool({
+    name: "markdown_outline",
+    description: "Markdownファイルの見出しツリーを各セクションの行範囲付きで取得する（コードフェンス内の#は無視）",
+    schema: z.object({
+      path: text("Markdownファイルのパス"),
+    }),
+    run: (args, config) => handleMarkdownOutline(args.path, config),
+  }),
+  defineTool({
+    name: "read_section",
+    description: "見出しパスで指定したMarkdownのセクション（配下の小見出しを含む）を読み取る",
+    schema: z.object({
+      path: text("Markdownファイルのパス"),
+      heading: headingPath(),
+    }),
+    run: (args, config) => handleReadSection(args.path, args.heading, config),
+  }),
+  defineTool({
+    name: "replace_section",
+    description: "見出しパスで指定したMarkdownのセクションを置き換える",
+    mutating: true,
+    schema: z.object({
+      path: text("Markdownファイルのパス"),
+      heading: headingPath(),
+      content: text("新しい内容（keep_headingがtrueの場合は本文のみ、falseの場合は見出し行を含む）"),
+      keep_heading: boolean("見出し行を残して本文（小見出しを含む）だけを置き換える（省略時はtrue）").default(true),
+      expected_hash: expectedHash(),
+    }),
+    run: (args, config) =>
+      handleReplaceSection(args.path, args.heading, args.content, args.keep_heading, config, args),
+  }),
+  defineTool({
+    name: "insert_after_section",
+    description: "見出しパスで指定したMarkdownのセクション（配下の小見出しを含む）の直後に内容を挿入する",
+    mutating: true,
+    schema: z.object({
+      path: text("Markdownファイルのパス"),
+      heading: headingPath(),
+      content: text("挿入する内容（新しいセクションの場合は見出し行を含める）"),
+      expected_hash: expectedHash(),
+    }),
+    run: (args, config) => handleInsertAfterSection(args.path, args.heading, args.content, config, args),
+  }),
+  defineTool({
+    name: "delete_section",
+    description: "見出しパスで指定したMarkdownのセクション（見出しと配下の小見出しを含む）を削除する",
+    mutating: true,
+    schema: z.object({
+      path: text("Markdownファイルのパス"),
+      heading: headingPath(),
+      expected_hash: expectedHash(),
+    }),
+    run: (args, config) => handleDeleteSection(args.path, args.heading, config, args),
+  }),
+  defineTool({
+    name: "get_value",
+    description: "JSON / YAML ファイルから指定したパスの値を取得する",
+    schema: z.object({
+      path: text("JSON / YAML ファイルのパス"),
+      key: keyPath(),
+    }),
+    run: (args, config) => handleGetValue(args.path, args.key, config),
+  }),
+  defineTool({
+    name: "set_value",
+    description: "JSON / YAML ファイルの指定したパスに値を設定する（インデント、YAMLのコメントとキー順序を保持）",
+    mutating: true,
+    schema: z.object({
+      path: text("JSON / YAML ファイルのパス"),
+      key: keyPath(),
+      value: z.unknown().describe("設定する値（任意のJSON値）。配列の末尾に追加する場合はキーの最後を \"-\" にする"),
+      expected_hash: expectedHash(),
+    }),
+    run: (args, config) => handleSetValue(args.path, args.key, args.value, config, args),
+  }),
+  defineTool({
+    name: "delete_value",
+    description: "JSON / YAML ファイルから指定したパスの値を削除する（インデント、YAMLのコメントとキー順序を保持）",
+    mutating: true,
+    schema: z.object({
+      path: text("JSON / YAML ファイルのパス"),
+      key: keyPath(),
+      expected_hash: expectedHash(),
+    }),
+    run: (args, config) => handleDeleteValue(args.path, args.key, config, args),
+  }),
+  defineTool({
+    name: "read_csv",
+    description: "CSVファイルをヘッダー付きで読み取る（行範囲・列・条件で絞り込み、RFC 4180の引用符に対応）",
+    schema: z.object({
+      path: text("CSVファイルのパス"),
+      offset: integer("読み飛ばす行数（条件に一致した行に対して適用、省略時は0）").optional(),
+      limit: integer("返す最大行数（省略時は50）").optional(),
+      columns: z.array(z.string()).describe("返す列名（省略時はすべての列）").optional(),
+      filters: z.array(z.object({
+        column: text("列名"),
+        op: z.enum(["eq", "ne", "contains", "regex", "gt", "lt"])
+          .describe("比較方法（省略時はeq、gt/ltは数値同士なら数値比較）")
+          .optional(),
+        value: text("比較する値"),
+      })).describe("行の絞り込み条件（すべてを満たす行を返す）").optional(),
+    }),
+    run: (args, config) => handleReadCsv(args.path, config, args),
+  }),
+  defineTool({
+    name: "update_csv_cell",
+    description: "CSVのセルを行番号またはキー列の値で特定して更新する（他の行は元のテキストのまま保持）",
+    mutating: true,
+    schema: z.object({
+      path: text("CSVファイルのパス"),
+      row: integer("対象のデータ行番号（read_csvの_row、1から開始）").optional(),
+      key_column: text("対象行を特定するキー列名（rowの代わりに使用）").optional(),
+      key_value: text("キー列の値（一意に一致する必要あり）").optional(),
+      column: text("更新する列名"),
+      value: text("新しい値"),
+      expected_hash: expectedHash(),
+    }),
+    run: (args, config) => handleUpdateCsvCell(args.path, args, args.column, args.value, config, args),
+  }),
+  defineTool({
+    name: "append_csv_rows",
+    description: "CSVの末尾に行を追加する（元の区切り文字・改行コードを保持）",
+    mutating: true,
+    schema: z.object({
+      path: text("CSVファイルのパス"),
+      rows: z.array(z.union([z.record(z.string(), z.unknown()), z.array(z.unknown())]))
+        .describe("追加する行（列名をキーとするオブジェクト、またはヘッダー順の値の配列）"),
+      expected_hash: expectedHash(),
+    }),
+    run: (args, config) => handleAppendCsvRows(args.path, args.rows, config, args),
+  }),
+  defineTool({
+    name: "add_csv_column",
+    description: "CSVに列を追加する",
+    mutating: true,
+    schema: z.object({
+      path: text("CSVファイルのパス"),
+      column: text("追加する列名"),
+      default_value: text("既存行に設定する値（省略時は空文字列）").default(""),
+      position: integer("挿入位置（0から開始、省略時は末尾）").optional(),
+      expected_hash: expectedHash(),
+    }),
+    run: (args, config) =>
+      handleAddCsvColumn(args.path, args.column, args.default_value, args.position, config, args),
+  }),
+  defineTool({
+    name: "drop_csv_column",
+    description: "CSVから列を削除する",
+    mutating: true,
+    schema: z.object({
+      path: text("CSVファイルのパス"),
+      column: text("削除する列名"),
+      expected_hash: expectedHash(),
+    }),
+    run: (args, config) => handleDropCsvColumn(args.path, args.column, config, args),
+  }),
+  defineTool({
+    name: "tail_file",
+    description: "ログファイルの末尾を読み取る。返されたcursorを次回指定すると、それ以降に追記された行だけを返す（ローテーション・切り詰めを検出）",
+    schema: z.object({
+      path: text("ログファイルのパス"),
+      lines: integer("返す最大行数（省略時は50）").optional(),
+      cursor: text("前回のtail_fileが返したcursor（指定時は追記分のみを先頭から返す）").optional(),
+      level: z.enum(["trace", "debug", "info", "warn", "error", "fatal"])
+        .describe("この重要度以上の行だけを返す")
+        .optional(),
+      since: text("この日時以降の行だけを返す（ISO 8601、または\"15m\" \"2h\" \"1d\"のような相対指定）").optional(),
+      until: text("この日時以前の行だけを返す（形式はsinceと同じ）").optional(),
+    }),
+    run: (args, config) => handleTailFile(args.path, config, args),
+  }),
+  defineTool({
+    name: "query_audit_log",
+    description: "書き込み系ツールの監査ログ（日時・ツール・パス・バイト数・前後の content_hash・結果・クライアント）を古い順に取得する",
+    schema: z.object({
+      path: text("このファイルの記録だけを返す").optional(),
+      pattern: text("パスを絞り込むglobパターン（例: \"docs/**/*.md\"）").optional(),
+      tool: text("このツールの記録だけを返す（例: \"write_file\"）").optional(),
+      status: z.enum(["ok", "error"]).describe("結果で絞り込む").optional(),
+      since: text("この日時以降の記録だけを返す（ISO 8601、または\"15m\" \"2h\" \"1d\"のような相対指定）").optional(),
+      until: text("この日時以前の記録だけを返す（形式はsinceと同じ）").optional(),
+      limit: integer("返す最大件数（条件に一致した最新の記録から、省略時は100）").optional(),
+    }),
+    run: (args, config) => handleQueryAuditLog(config, args),
+  }),
+  defineTool({
+    name: "diff_files",
+    description: "ファイルを別のファイルまたは提案内容と比較し、unified diff を返す",
+    schema: z.object({
+      path: text("比較元ファイルのパス"),
+      other_path: text("比較先ファイルのパス（content と排他）").optional(),
+      content: text("比較先の内容（other_path と排他）").optional(),
+      context_lines: integer("変更行の前後に表示する行数（省略時は3）").optional(),
+    }),
+    run: (args, config) => handleDiffFiles(args.path, config, args),
+  }),
+  defineTool({
+    name: "format_file",
+    description: "ファイルを形式に合わせて整形し、変更の unified diff を返す（JSON のインデント・キーの並べ替え、YAML の正規化、Markdown のテーブルの列揃え、行末の空白と末尾の改行）",
+    mutating: true,
+    schema: z.object({
+      path: text("整形するファイルのパス"),
+      indent: integer("JSON / YAML のインデント幅（1〜8、JSON は 0 で1行、省略時は2）").optional(),
+      sort_keys: boolean("JSON / YAML のオブジェクトのキーを並べ替える（省略時はfalse）").optional(),
+      expected_hash: expectedHash(),
+    }),
+    run: (args, config) => handleFormatFile(args.path, config, args),
+  }),
+  defineTool({
+    name: "convert_file",
+    description: "CSV・JSON・YAML ファイルを別の形式に変換して書き出す（CSV ↔ JSON のオブジェクト配列、YAML ↔ JSON、JSON → Markdown テーブルなど）",
+    mutating: true,
+    schema: z.object({
+      source: text("変換元ファイルのパス（.csv / .json / .yaml / .yml）"),
+      destination: text("変換先ファイルのパス（拡張子で形式を決める: .csv / .json / .yaml / .yml / .md）"),
+      infer_types: boolean("CSV のセルを数値・真偽値に、空のセルを null に変換する（元の表記に戻せる値だけ。省略時はtrue）").optional(),
+      header: boolean("CSV の先頭行を列名として扱う。false の場合は配列の配列として読み書きする（省略時はtrue）").optional(),
+      overwrite: boolean("変換先が存在する場合に上書きする（省略時はfalse）").optional(),
+      expected_hash: expectedHash("上書きする変換先の content_hash（指定時、変換先の内容が異なれば競合エラー）"),
+    }),
+    run: (args, config) => handleConvertFile(args.source, args.destination, config, args),
+  }),
+  defineTool({
+    name: "validate_file",
+    description: "JSON・YAML・CSV・Markdown ファイルの構文を検証し、行・列付きの診断を返す（書き込み前のチェックと同じ基準）",
+    schema: z.object({
+      path: text("検証するファイルのパス"),
+    }),
+    run: (args, config) => handleValidateFile(args.path, config),
+  }),
+];
+
+/**
+ * zod スキーマを inputSchema 用の JSON Schema に変換します
+ * $schema と、整数型に付く安全な整数範囲（±2^53-1）の minimum / maximum は冗長なため除きます。
+ */
+function toInputSchema(schema: z.ZodObject): ToolInfo["inputSchema"] {
+  const { $schema, ...jsonSchema } = z.toJSONSchema(schema, {
+    io: "input",
+    unrepresentable: "any",
+    override: ({ jsonSchema }) => {
+      if (jsonSchema.minimum === Number.MIN_SAFE_INTEGER) delete jsonSchema.minimum;
+      if (jsonSchema.maximum === Number.MAX_SAFE_INTEGER) delete jsonSchema.maximum;
     },
-  },
-];
\ No newline at end of file
+  });
+  return jsonSchema as ToolInfo["inputSchema"];
+}
+
+const definitionsByName = new Map(definitions.map(tool => [tool.name, tool]));
+
+/** ListTools で返すツール一覧 */
+export const tools: ToolInfo[] = definitions.map(tool => ({
+  name: tool.name,
+  description: tool.description,
+  inputSchema: toInputSchema(tool.schema),
+}));
+
+// 監査ログに記録する引数のパス（スキーマ検証前の引数からも取り出せるよう未検証の値を受け取る）
+function argumentPathsOf(args: unknown): string[] {
+  const record = (args ?? {}) as Record<string, unknown>;
+  // batch_edit は各操作の path
+  const operations = Array.isArray(record.operations) ? record.operations as Array<Record<string, unknown> | null> : [];
+  const paths = [
+    ...["path", "source", "destination"].map(key => record[key]),
+    ...operations.map(operation => operation?.path),
+  ].filter((value): value is string => typeof value === "string");
+  return [...new Set(paths)];
+}
+
+/**
+ * 引数をスキーマで検証・型変換してからツールを実行します
+ * 未知のツールは MethodNotFound、引数が不正な場合は不正なフィールドを列挙した InvalidParams を投げます。
+ * 書き込み系ツールの呼び出しは、引数が不正な場合も含めて監査ログに記録します（dry_run を除く）。
+ */
+export async function callTool(name: string, args: unknown, config: Config, client?: ClientInfo): Promise<ToolResult> {
+  const tool = definitionsByName.get(name);
+  if (!tool) {
+    throw new McpError(ErrorCode.MethodNotFound, t("unknownTool", { name }));
+  }
+
+  const call = tool.prepare(args ?? {});
+  const dryRun = call.success && call.dryRun;
+  const execute = async () => {
+    if (!call.success) {
+      const issues = call.issues.map(issue => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+      throw new McpError(ErrorCode.InvalidParams, t("invalidArguments", { tool: name, issues }));
+    }
+    return dryRun ? previewChanges(() => call.run(config), config) : call.run(config);
+  };
+
+  // ドライランはファイルを変更しないため監査ログには記録しない
+  if (!tool.mutating || dryRun) {
+    return execute();
+  }
+  return withAudit(name, argumentPathsOf(args), client ?? null, config, execute);
+}
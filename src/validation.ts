@@ -2,55 +2,130 @@
  * @fileoverview セキュリティバリデーション関数群
  * ファイル操作における各種安全性チェックを提供します。
  * - ファイル拡張子の制限
- * - パストラバーサル攻撃の防止
+ * - 許可ルート外へのアクセス防止（パストラバーサル・シンボリックリンク対策）
  * - ファイルサイズの制限
+ * - 内容ハッシュによる楽観的排他制御
  */
 
+import { createHash } from "crypto";
 import * as fs from "fs/promises";
 import * as path from "path";
 import { Config } from "./config.js";
+import { streamContentHash } from "./reader.js";
+import { policyFor, refreshPolicy } from "./policy.js";
 
 /**
  * ファイル拡張子が許可されているかを検証します
  * 
- * @param filePath - 検証するファイルのパス
+ * ポリシーファイルのルールで拡張子が上書きされている場合はそちらを使い、
+ * 不可視（deny）のパスは常に許可しません（一覧・検索からも除外される）。
+ * 
+ * @param filePath - 検証するファイルのパス（解決済みの絶対パス）
  * @param config - 設定オブジェクト（許可拡張子一覧を含む）
  * @returns 許可された拡張子の場合true、そうでなければfalse
  * 
  * @example
  * ```typescript
- * const config = { allowedExtensions: ['.md', '.txt'], maxFileSize: 1000000 };
+ * const config = { allowedExtensions: ['.md', '.txt'], maxFileSize: 1000000, allowedRoots: ['/workspace'] };
  * validateFileExtension('document.md', config); // => true
  * validateFileExtension('script.js', config);   // => false
  * ```
  */
 export function validateFileExtension(filePath: string, config: Config): boolean {
   const extension = path.extname(filePath);
-  return config.allowedExtensions.includes(extension);
+  const policy = policyFor(filePath, config);
+  return policy.access !== "deny" && policy.allowedExtensions.includes(extension);
 }
 
 /**
- * パストラバーサル攻撃を防止するためのパス検証を行います
- * 
- * 以下の条件をチェックします：
- * - ".." を含まないこと（ディレクトリトラバーサル防止）
- * - 相対パスまたは絶対パスであること
- * 
- * @param filePath - 検証するファイルパス
- * @returns 安全なパスの場合true、危険なパスの場合false
- * 
+ * パスに適用される最大ファイルサイズを返します（ポリシーのルールで上書き可能）
+ */
+export function maxFileSizeFor(filePath: string, config: Config): number {
+  return policyFor(filePath, config).maxFileSize;
+}
+
+/**
+ * パスへの書き込み（作成・変更・削除・移動）が許可されているかを判定します
+ */
+export function isWritable(filePath: string, config: Config): boolean {
+  return policyFor(filePath, config).access === "read-write";
+}
+
+/**
+ * 対象パスが指定ルート配下（ルート自身を含む）にあるかを判定します
+ */
+function isWithinRoot(targetPath: string, root: string): boolean {
+  const relative = path.relative(root, targetPath);
+  return relative === "" ||
+    (relative !== ".." && !relative.startsWith(".." + path.sep) && !path.isAbsolute(relative));
+}
+
+/**
+ * シンボリックリンクを辿って実パスを求めます
+ *
+ * 存在しないパス（新規作成予定のファイルなど）は、存在する最も近い祖先ディレクトリを
+ * realpathで解決し、残りのパス要素を連結して返します。
+ */
+async function realpathAllowMissing(absolutePath: string): Promise<string> {
+  const missing: string[] = [];
+  let current = absolutePath;
+  while (true) {
+    try {
+      const real = await fs.realpath(current);
+      return missing.length > 0 ? path.join(real, ...missing.reverse()) : real;
+    } catch (error) {
+      const parent = path.dirname(current);
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT" || parent === current) {
+        throw error;
+      }
+      missing.push(path.basename(current));
+      current = parent;
+    }
+  }
+}
+
+/**
+ * ファイルパスをワークスペース基準で解決し、許可ルート内にあるかを検証します
+ *
+ * すべてのハンドラーはこのリゾルバーを経由してパスを扱います。
+ * - 相対パスはサーバーのカレントディレクトリではなくワークスペースルート（許可ルートの先頭）を基準に解決
+ * - シンボリックリンクはrealpathで辿ったうえで判定（リンク経由の脱出を防止）
+ * - 解決後のパスがいずれの許可ルートにも含まれない場合は拒否
+ * - ポリシーで不可視（deny）とされたパスも拒否（変更されたポリシーはここで再読み込みする）
+ *
+ * @param filePath - 検証するファイルパス（相対または絶対）
+ * @param config - 設定オブジェクト（許可ルートを含む）
+ * @returns 許可ルート内の実パス。ルート外や解決不能な場合はnull
+ *
  * @example
  * ```typescript
- * validatePath('document.md');           // => true
- * validatePath('/home/user/file.txt');   // => true
- * validatePath('../../../etc/passwd');   // => false
- * validatePath('folder/../secret.txt');  // => false
+ * // allowedRoots: ['/home/user/docs']
+ * await resolvePath('notes/todo.md', config);      // => '/home/user/docs/notes/todo.md'
+ * await resolvePath('/etc/passwd', config);        // => null
+ * await resolvePath('../../etc/passwd', config);   // => null
  * ```
  */
-export function validatePath(filePath: string): boolean {
-  // パストラバーサル攻撃の防止
-  const normalizedPath = path.normalize(filePath);
-  return !normalizedPath.includes("..") && !path.isAbsolute(normalizedPath) || path.isAbsolute(normalizedPath);
+export async function resolvePath(filePath: string, config: Config): Promise<string | null> {
+  if (typeof filePath !== "string" || filePath.length === 0 || filePath.includes("\0")) {
+    return null;
+  }
+
+  const workspaceRoot = config.allowedRoots[0];
+  const absolutePath = path.resolve(workspaceRoot, filePath);
+
+  let realPath: string;
+  try {
+    realPath = await realpathAllowMissing(absolutePath);
+  } catch {
+    return null;
+  }
+
+  if (!config.allowedRoots.some(root => isWithinRoot(realPath, root))) {
+    return null;
+  }
+
+  await refreshPolicy(config);
+  return policyFor(realPath, config).access === "deny" ? null : realPath;
 }
 
 /**
@@ -65,7 +140,7 @@ export function validatePath(filePath: string): boolean {
  * 
  * @example
  * ```typescript
- * const config = { allowedExtensions: ['.md'], maxFileSize: 1000000 }; // 1MB制限
+ * const config = { allowedExtensions: ['.md'], maxFileSize: 1000000, allowedRoots: ['/workspace'] }; // 1MB制限
  * await checkFileSize('small-file.md', config);  // => true (100KB)
  * await checkFileSize('large-file.md', config);  // => false (2MB)
  * await checkFileSize('new-file.md', config);    // => true (存在しない)
@@ -74,7 +149,7 @@ export function validatePath(filePath: string): boolean {
 export async function checkFileSize(filePath: string, config: Config): Promise<boolean> {
   try {
     const stats = await fs.stat(filePath);
-    return stats.size <= config.maxFileSize;
+    return stats.size <= maxFileSizeFor(filePath, config);
   } catch {
     // ファイルが存在しない場合は新規作成として扱う
     return true;
@@ -88,19 +163,47 @@ export async function checkFileSize(filePath: string, config: Config): Promise<b
  * 設定された最大ファイルサイズと比較します。
  * 
  * @param content - チェックする文字列コンテンツ
+ * @param filePath - 書き込み先のパス（ポリシーによるサイズ上限の判定に使用）
  * @param config - 設定オブジェクト（最大ファイルサイズを含む）
  * @returns コンテンツサイズが制限内の場合true
  * 
  * @example
  * ```typescript
- * const config = { allowedExtensions: ['.md'], maxFileSize: 1000000 }; // 1MB制限
+ * const config = { allowedExtensions: ['.md'], maxFileSize: 1000000, allowedRoots: ['/workspace'] }; // 1MB制限
  * const smallContent = "Hello, world!";
  * const largeContent = "x".repeat(2000000); // 2MB相当
  * 
- * validateContentSize(smallContent, config); // => true
- * validateContentSize(largeContent, config); // => false
+ * validateContentSize(smallContent, '/workspace/a.md', config); // => true
+ * validateContentSize(largeContent, '/workspace/a.md', config); // => false
  * ```
  */
-export function validateContentSize(content: string, config: Config): boolean {
-  return Buffer.byteLength(content, 'utf8') <= config.maxFileSize;
-}
\ No newline at end of file
+export function validateContentSize(content: string | Buffer, filePath: string, config: Config): boolean {
+  return Buffer.byteLength(content, 'utf8') <= maxFileSizeFor(filePath, config);
+}
+
+/**
+ * ファイル内容のハッシュ（バージョントークン）を計算します
+ *
+ * read_file / get_file_info が返し、書き込み系ツールの expected_hash で照合する値です。
+ *
+ * @param data - ファイル内容（文字列の場合はUTF-8でエンコードしたバイト列を対象とする）
+ * @returns SHA-256 の16進文字列
+ */
+export function computeContentHash(data: string | Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+/**
+ * ディスク上のファイルの現在のハッシュを取得します
+ *
+ * @param filePath - 対象ファイルの（解決済み）パス
+ * @returns ハッシュ値。ファイルが存在しない場合はnull
+ */
+export async function readContentHash(filePath: string): Promise<string | null> {
+  try {
+    // 大きなファイルでもメモリに全体を読み込まないようストリームで計算する
+    return await streamContentHash(filePath);
+  } catch {
+    return null;
+  }
+}